@@ -11,12 +11,17 @@ import * as redisStore from 'cache-manager-redis-store';
 import { UsersModule } from './modules/users/users.module';
 import { TasksModule } from './modules/tasks/tasks.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { TagsModule } from './modules/tags/tags.module';
+import { ProjectsModule } from './modules/projects/projects.module';
+import { UsageModule } from './modules/usage/usage.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
 
 // Infrastructure modules
 import { TaskProcessorModule } from './queues/task-processor/task-processor.module';
 import { ScheduledTasksModule } from './queues/scheduled-tasks/scheduled-tasks.module';
 
 // Shared services and infrastructure
+import { CommonModule } from './common/common.module';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 
 // Configuration
@@ -24,6 +29,8 @@ import databaseConfig from './config/database.config';
 import redisConfig from './config/redis.config';
 import jwtConfig from './config/jwt.config';
 import appConfig from './config/app.config';
+import quotaConfig from './config/quota.config';
+import mailConfig from './config/mail.config';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
 
@@ -32,7 +39,7 @@ import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
     //  Global Configuration with multiple config files
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [databaseConfig, redisConfig, jwtConfig, appConfig],
+      load: [databaseConfig, redisConfig, jwtConfig, appConfig, quotaConfig, mailConfig],
       cache: true, // Enable config caching
     }),
 
@@ -114,10 +121,17 @@ import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
       },
     }),
 
+    //  Shared services (Redis-backed CacheService)
+    CommonModule,
+
     //  Feature modules
     AuthModule,
     UsersModule,
     TasksModule,
+    TagsModule,
+    ProjectsModule,
+    UsageModule,
+    ApiKeysModule,
 
     //  Queue processing modules
     TaskProcessorModule,
@@ -152,6 +166,9 @@ export class AppModule {
       'REDIS_HOST',
       'REDIS_PORT',
       'JWT_SECRET',
+      // Without their own secrets these tokens would be signed with JWT_SECRET
+      'EMAIL_VERIFICATION_SECRET',
+      'TWO_FACTOR_CHALLENGE_SECRET',
     ];
 
     for (const config of requiredConfig) {
@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { CacheService } from './services/cache.service';
+
+// Shared infrastructure services, available to every feature module
+@Global()
+@Module({
+  providers: [CacheService],
+  exports: [CacheService],
+})
+export class CommonModule {}
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IDEMPOTENCY_OMIT_KEY = 'idempotency_omit';
+
+// Response fields IdempotencyInterceptor neither stores nor replays, such as credentials
+export const IdempotencyOmit = (...fields: string[]) => SetMetadata(IDEMPOTENCY_OMIT_KEY, fields);
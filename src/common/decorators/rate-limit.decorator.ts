@@ -7,8 +7,5 @@ export interface RateLimitOptions {
   windowMs: number;
 }
 
-export const RateLimit = (options: RateLimitOptions) => {
-  // Problem: This decorator doesn't actually enforce rate limiting
-  // It only sets metadata that is never used by the guard
-  return SetMetadata(RATE_LIMIT_KEY, options);
-}; 
\ No newline at end of file
+// Allows `limit` requests per caller in any `windowMs` window; enforced by RateLimitGuard
+export const RateLimit = (options: RateLimitOptions) => SetMetadata(RATE_LIMIT_KEY, options);
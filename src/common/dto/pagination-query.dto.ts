@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Matches, Max, MaxLength, Min } from 'class-validator';
+import { PaginationOptions } from '../../types/pagination.interface';
+
+export class PaginationQueryDto implements PaginationOptions {
+  @ApiProperty({ example: 1, required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ example: 10, required: false, default: 10 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 10;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Opaque cursor from a previous nextCursor/prevCursor. Switches to keyset pagination; ' +
+      'send an empty value to start from the first page. `page` is ignored in this mode.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  cursor?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '-priority,dueDate,title',
+    description: 'Comma separated sort fields; prefix a field with "-" for descending order',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^-?\w+(,-?\w+)*$/, { message: 'sort must be a comma separated list of fields' })
+  sort?: string;
+
+  @ApiProperty({ required: false, example: 'createdAt', description: 'Single sort field' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  sortBy?: string;
+
+  @ApiProperty({ required: false, enum: ['ASC', 'DESC'], default: 'ASC' })
+  @IsOptional()
+  @IsIn(['ASC', 'DESC'])
+  sortOrder?: 'ASC' | 'DESC';
+}
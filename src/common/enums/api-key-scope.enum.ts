@@ -0,0 +1,6 @@
+export enum ApiKeyScope {
+  TASKS_READ = 'tasks:read',
+  TASKS_WRITE = 'tasks:write',
+  USERS_READ = 'users:read',
+  USERS_WRITE = 'users:write',
+}
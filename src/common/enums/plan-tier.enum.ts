@@ -0,0 +1,5 @@
+export enum PlanTier {
+  FREE = 'free',
+  PRO = 'pro',
+  ENTERPRISE = 'enterprise',
+}
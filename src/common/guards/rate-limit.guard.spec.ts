@@ -0,0 +1,97 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimit } from '../decorators/rate-limit.decorator';
+import { CacheService } from '../services/cache.service';
+
+@RateLimit({ limit: 100, windowMs: 60000 })
+class LimitedController {
+  list() {}
+
+  @RateLimit({ limit: 5, windowMs: 1000 })
+  create() {}
+}
+
+class UnlimitedController {
+  list() {}
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let response: { setHeader: jest.Mock };
+
+  const cacheService = { hitSlidingWindow: jest.fn() };
+
+  const contextFor = (
+    controller: new () => object,
+    handler: string,
+    request: Record<string, unknown> = { ip: '203.0.113.7' },
+  ) =>
+    ({
+      getClass: () => controller,
+      getHandler: () => (controller.prototype as Record<string, unknown>)[handler],
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    response = { setHeader: jest.fn() };
+    cacheService.hitSlidingWindow.mockResolvedValue({ allowed: true, count: 1, resetInMs: 60000 });
+    guard = new RateLimitGuard(new Reflector(), cacheService as unknown as CacheService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should apply the route limit before the class limit', async () => {
+    await guard.canActivate(contextFor(LimitedController, 'create', { user: { id: 'user-id' } }));
+
+    expect(cacheService.hitSlidingWindow).toHaveBeenCalledWith(
+      'ratelimit:LimitedController.create:user:user-id',
+      5,
+      1000,
+    );
+  });
+
+  it('should share the class limit between routes and hash anonymous IPs', async () => {
+    await guard.canActivate(contextFor(LimitedController, 'list'));
+
+    const [key, limit] = cacheService.hitSlidingWindow.mock.calls[0];
+    expect(key).toMatch(/^ratelimit:LimitedController:ip:[0-9a-f]{32}$/);
+    expect(key).not.toContain('203.0.113.7');
+    expect(limit).toBe(100);
+  });
+
+  it('should send the rate limit headers', async () => {
+    cacheService.hitSlidingWindow.mockResolvedValue({ allowed: true, count: 40, resetInMs: 1500 });
+
+    await expect(guard.canActivate(contextFor(LimitedController, 'list'))).resolves.toBe(true);
+    expect(response.setHeader).toHaveBeenCalledWith('RateLimit-Limit', 100);
+    expect(response.setHeader).toHaveBeenCalledWith('RateLimit-Remaining', 60);
+    expect(response.setHeader).toHaveBeenCalledWith('RateLimit-Reset', 2);
+  });
+
+  it('should reject requests over the limit with Retry-After', async () => {
+    cacheService.hitSlidingWindow.mockResolvedValue({ allowed: false, count: 5, resetInMs: 800 });
+
+    const attempt = guard.canActivate(contextFor(LimitedController, 'create'));
+
+    await expect(attempt).rejects.toThrow(HttpException);
+    await expect(attempt).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+    expect(response.setHeader).toHaveBeenCalledWith('Retry-After', 1);
+  });
+
+  it('should not limit routes without @RateLimit', async () => {
+    await expect(guard.canActivate(contextFor(UnlimitedController, 'list'))).resolves.toBe(true);
+    expect(cacheService.hitSlidingWindow).not.toHaveBeenCalled();
+  });
+
+  it('should let requests through when Redis is unavailable', async () => {
+    cacheService.hitSlidingWindow.mockRejectedValue(new Error('connection refused'));
+
+    await expect(guard.canActivate(contextFor(LimitedController, 'list'))).resolves.toBe(true);
+  });
+});
@@ -1,76 +1,90 @@
-import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { Observable } from 'rxjs';
-
-// Inefficient in-memory storage for rate limiting
-// Problems:
-// 1. Not distributed - breaks in multi-instance deployments
-// 2. Memory leak - no cleanup mechanism for old entries
-// 3. No persistence - resets on application restart
-// 4. Inefficient data structure for lookups in large datasets
-const requestRecords: Record<string, { count: number, timestamp: number }[]> = {};
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { CacheService } from '../services/cache.service';
+import { RATE_LIMIT_KEY, RateLimitOptions } from '../decorators/rate-limit.decorator';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
 
+/**
+ * Enforces the `@RateLimit` of the route, or else of its controller, with a
+ * sliding window in Redis so the limit holds across instances. Callers are
+ * counted by user ID once authenticated, otherwise by a hash of their IP.
+ * A route-level limit gets its own budget; a class-level one is shared by
+ * the controller's routes.
+ */
 @Injectable()
 export class RateLimitGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  private readonly logger = new Logger(RateLimitGuard.name);
 
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
-    const request = context.switchToHttp().getRequest();
-    const ip = request.ip;
-    
-    // Inefficient: Uses IP address directly without any hashing or anonymization
-    // Security risk: Storing raw IPs without compliance consideration
-    return this.handleRateLimit(ip);
-  }
+  constructor(
+    private reflector: Reflector,
+    private cacheService: CacheService,
+  ) {}
 
-  private handleRateLimit(ip: string): boolean {
-    const now = Date.now();
-    const windowMs = 60 * 1000; // 1 minute
-    const maxRequests = 100; // Max 100 requests per minute
-    
-    // Inefficient: Creates a new array for each IP if it doesn't exist
-    if (!requestRecords[ip]) {
-      requestRecords[ip] = [];
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const handler = context.getHandler();
+    const controller = context.getClass();
+    const options = this.reflector.getAllAndOverride<RateLimitOptions | undefined>(RATE_LIMIT_KEY, [
+      handler,
+      controller,
+    ]);
+
+    if (!options) {
+      return true;
     }
-    
-    // Inefficient: Filter operation on potentially large array
-    // Every request causes a full array scan
-    const windowStart = now - windowMs;
-    requestRecords[ip] = requestRecords[ip].filter(record => record.timestamp > windowStart);
-    
-    // Check if rate limit is exceeded
-    if (requestRecords[ip].length >= maxRequests) {
-      // Inefficient error handling: Too verbose, exposes internal details
-      throw new HttpException({
-        status: HttpStatus.TOO_MANY_REQUESTS,
-        error: 'Rate limit exceeded',
-        message: `You have exceeded the ${maxRequests} requests per ${windowMs / 1000} seconds limit.`,
-        limit: maxRequests,
-        current: requestRecords[ip].length,
-        ip: ip, // Exposing the IP in the response is a security risk
-        remaining: 0,
-        nextValidRequestTime: requestRecords[ip][0].timestamp + windowMs,
-      }, HttpStatus.TOO_MANY_REQUESTS);
+
+    const scope = this.reflector.get(RATE_LIMIT_KEY, handler)
+      ? `${controller.name}.${handler.name}`
+      : controller.name;
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = `ratelimit:${scope}:${this.identify(request)}`;
+
+    let result;
+    try {
+      result = await this.cacheService.hitSlidingWindow(key, options.limit, options.windowMs);
+    } catch (error) {
+      // Rate limiting must not take the API down with Redis
+      this.logger.warn(`Rate limit check skipped: ${(error as Error).message}`);
+      return true;
     }
-    
-    // Inefficient: Potential race condition in concurrent environments
-    // No locking mechanism when updating shared state
-    requestRecords[ip].push({ count: 1, timestamp: now });
-    
-    // Inefficient: No periodic cleanup task, memory usage grows indefinitely
-    // Dead entries for inactive IPs are never removed
-    
+
+    const response = context.switchToHttp().getResponse<Response>();
+    const resetSeconds = Math.max(1, Math.ceil(result.resetInMs / 1000));
+
+    response.setHeader('RateLimit-Limit', options.limit);
+    response.setHeader('RateLimit-Remaining', Math.max(0, options.limit - result.count));
+    response.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (!result.allowed) {
+      response.setHeader('Retry-After', resetSeconds);
+      throw new HttpException(
+        'Too many requests, please try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
     return true;
   }
-}
 
-// Decorator to apply rate limiting to controllers or routes
-export const RateLimit = (limit: number, windowMs: number) => {
-  // Inefficient: Decorator doesn't actually use the parameters
-  // This is misleading and causes confusion
-  return (target: any, key?: string, descriptor?: any) => {
-    return descriptor;
-  };
-}; 
\ No newline at end of file
+  private identify(request: Request): string {
+    const user = request.user as AuthenticatedUser | undefined;
+    if (user?.id) {
+      return `user:${user.id}`;
+    }
+
+    // Raw IPs are never stored
+    const ipHash = createHash('sha256')
+      .update(request.ip ?? 'unknown')
+      .digest('hex')
+      .substring(0, 32);
+    return `ip:${ipHash}`;
+  }
+}
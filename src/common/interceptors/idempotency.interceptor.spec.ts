@@ -0,0 +1,161 @@
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { CacheService } from '../services/cache.service';
+import { IdempotencyOmit } from '../decorators/idempotency-omit.decorator';
+
+class Controller {
+  create() {}
+
+  @IdempotencyOmit('accessToken', 'refreshToken')
+  register() {}
+}
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+  let store: Map<string, unknown>;
+  let response: { setHeader: jest.Mock };
+
+  const cacheService = {
+    setIfAbsent: jest.fn(),
+    set: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+  };
+  const configService = { get: jest.fn().mockReturnValue(3600) };
+
+  const contextFor = (
+    body: unknown,
+    key: string | null = 'key-1',
+    user: { id: string } | null = { id: 'user-id' },
+    ip = '203.0.113.7',
+    route: keyof Controller = 'create',
+  ) =>
+    ({
+      getClass: () => Controller,
+      getHandler: () => Controller.prototype[route],
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          originalUrl: '/tasks',
+          body,
+          user: user ?? undefined,
+          ip,
+          header: (name: string) => (name === 'idempotency-key' ? (key ?? undefined) : undefined),
+        }),
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const handler = (result: unknown): CallHandler & { handle: jest.Mock } => ({
+    handle: jest.fn(() => of(result)),
+  });
+
+  const run = async (context: ExecutionContext, next: CallHandler) =>
+    lastValueFrom(await interceptor.intercept(context, next));
+
+  beforeEach(() => {
+    store = new Map();
+    response = { setHeader: jest.fn() };
+    cacheService.setIfAbsent.mockImplementation(async (key, value) => {
+      if (store.has(key)) return false;
+      store.set(key, value);
+      return true;
+    });
+    cacheService.set.mockImplementation(async (key, value) => void store.set(key, value));
+    cacheService.get.mockImplementation(async key => store.get(key) ?? null);
+    cacheService.delete.mockImplementation(async key => store.delete(key));
+
+    interceptor = new IdempotencyInterceptor(
+      cacheService as unknown as CacheService,
+      configService as unknown as ConfigService,
+      new Reflector(),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should pass requests without a key straight through', async () => {
+    const next = handler({ id: 'task-id' });
+
+    await expect(run(contextFor({ title: 'A' }, null), next)).resolves.toEqual({
+      id: 'task-id',
+    });
+    expect(cacheService.setIfAbsent).not.toHaveBeenCalled();
+  });
+
+  it('should replay the stored response for a repeated request', async () => {
+    const first = handler({ id: 'task-id' });
+    const retry = handler({ id: 'duplicate-id' });
+
+    await run(contextFor({ title: 'A' }), first);
+    const replayed = await run(contextFor({ title: 'A' }), retry);
+
+    expect(replayed).toEqual({ id: 'task-id' });
+    expect(retry.handle).not.toHaveBeenCalled();
+    expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(cacheService.setIfAbsent).toHaveBeenCalledWith(
+      'idempotency:user-id:key-1',
+      expect.objectContaining({ completed: false }),
+      3600,
+    );
+  });
+
+  it('should reject a reused key with a different payload', async () => {
+    await run(contextFor({ title: 'A' }), handler({ id: 'task-id' }));
+
+    await expect(run(contextFor({ title: 'B' }), handler({}))).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('should reject a repeat while the first request is still running', async () => {
+    await interceptor.intercept(contextFor({ title: 'A' }), handler({ id: 'task-id' }));
+
+    await expect(run(contextFor({ title: 'A' }), handler({}))).rejects.toThrow(ConflictException);
+  });
+
+  it("should not let anonymous callers replay each other's responses", async () => {
+    const anonymous = (body: unknown, ip?: string) => contextFor(body, 'key-1', null, ip);
+    await run(anonymous({ title: 'A' }), handler({ id: 'task-id' }));
+
+    const otherAddress = handler({ id: 'other-id' });
+    await expect(run(anonymous({ title: 'A' }, '198.51.100.1'), otherAddress)).resolves.toEqual({
+      id: 'other-id',
+    });
+    const otherPayload = handler({ id: 'another-id' });
+    await expect(run(anonymous({ title: 'B' }), otherPayload)).resolves.toEqual({
+      id: 'another-id',
+    });
+    expect(response.setHeader).not.toHaveBeenCalled();
+  });
+
+  it('should keep omitted fields such as tokens out of the store and the replay', async () => {
+    const register = () =>
+      contextFor({ email: 'jane@example.com' }, 'key-1', null, undefined, 'register');
+    const registered = { accessToken: 'access', refreshToken: 'refresh', user: { id: 'user-id' } };
+
+    await expect(run(register(), handler(registered))).resolves.toEqual(registered);
+    const replayed = await run(register(), handler({}));
+
+    expect(replayed).toEqual({ user: { id: 'user-id' } });
+    expect(JSON.stringify([...store.values()])).not.toContain('access');
+    expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('should release the key when the request fails', async () => {
+    const failing = { handle: () => throwError(() => new Error('boom')) };
+
+    await expect(run(contextFor({ title: 'A' }), failing)).rejects.toThrow('boom');
+    expect(store.size).toBe(0);
+  });
+});
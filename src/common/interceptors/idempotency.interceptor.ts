@@ -0,0 +1,140 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { instanceToPlain } from 'class-transformer';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, concatMap } from 'rxjs/operators';
+import { CacheService } from '../services/cache.service';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import { IDEMPOTENCY_OMIT_KEY } from '../decorators/idempotency-omit.decorator';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  completed: boolean;
+  body?: unknown;
+}
+
+/**
+ * Makes POST endpoints safe to retry. The first request with a given
+ * `Idempotency-Key` runs and its response is stored; repeats with the same
+ * payload get that response replayed, a different payload gets 422 and a
+ * repeat that arrives while the first is still running gets 409. Failed
+ * requests release the key so they can be retried. Fields named with
+ * @IdempotencyOmit are left out of the stored response and so of replays.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const idempotencyKey = request.header(IDEMPOTENCY_HEADER);
+
+    if (idempotencyKey === undefined) {
+      return next.handle();
+    }
+    if (!idempotencyKey.trim() || idempotencyKey.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    // Keys are per caller, so two users cannot collide on (or probe) each other's keys.
+    // Anonymous callers only share a key when they send the same request from the same address
+    const user = request.user as AuthenticatedUser | undefined;
+    const fingerprint = this.fingerprint(request);
+    const caller = user?.id ?? `anonymous:${this.anonymousCaller(request, fingerprint)}`;
+    const cacheKey = `idempotency:${caller}:${idempotencyKey}`;
+    const ttlSeconds = this.configService.get<number>('app.idempotencyKeyTtlSeconds', 86400);
+
+    const acquired = await this.cacheService.setIfAbsent<IdempotencyRecord>(
+      cacheKey,
+      { fingerprint, completed: false },
+      ttlSeconds,
+    );
+
+    if (!acquired) {
+      return of(await this.replay(cacheKey, fingerprint, context));
+    }
+
+    return next.handle().pipe(
+      concatMap(async body => {
+        // Stored in plain form, so fields excluded from responses never reach Redis
+        const plainBody = instanceToPlain(body);
+        await this.cacheService.set<IdempotencyRecord>(
+          cacheKey,
+          { fingerprint, completed: true, body: this.omitFields(plainBody, context) },
+          ttlSeconds,
+        );
+        return plainBody;
+      }),
+      catchError(error =>
+        from(this.cacheService.delete(cacheKey)).pipe(concatMap(() => throwError(() => error))),
+      ),
+    );
+  }
+
+  private async replay(
+    cacheKey: string,
+    fingerprint: string,
+    context: ExecutionContext,
+  ): Promise<unknown> {
+    const record = await this.cacheService.get<IdempotencyRecord>(cacheKey);
+
+    if (record && record.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key was already used for a different request',
+      );
+    }
+    if (!record?.completed) {
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    this.logger.debug(`Replaying response for idempotency key ${cacheKey}`);
+    context.switchToHttp().getResponse<Response>().setHeader('Idempotent-Replayed', 'true');
+
+    return record.body;
+  }
+
+  private omitFields(body: Record<string, unknown>, context: ExecutionContext): unknown {
+    const omitted = this.reflector.getAllAndOverride<string[]>(IDEMPOTENCY_OMIT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!omitted?.length) {
+      return body;
+    }
+
+    return Object.fromEntries(Object.entries(body).filter(([field]) => !omitted.includes(field)));
+  }
+
+  private anonymousCaller(request: Request, fingerprint: string): string {
+    return createHash('sha256').update(`${request.ip}\n${fingerprint}`).digest('hex');
+  }
+
+  private fingerprint(request: Request): string {
+    return createHash('sha256')
+      .update(`${request.method} ${request.originalUrl}\n${JSON.stringify(request.body ?? {})}`)
+      .digest('hex');
+  }
+}
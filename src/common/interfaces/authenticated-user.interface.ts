@@ -0,0 +1,19 @@
+import { UserRole } from '../enums/user-role.enum';
+import { PlanTier } from '../enums/plan-tier.enum';
+import { ApiKeyScope } from '../enums/api-key-scope.enum';
+
+// Shape attached to `request.user` by JwtStrategy.validate and ApiKeyStrategy.validate
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  plan: PlanTier;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // Refresh token family the access token was issued for
+  sessionId?: string;
+  // Set when the request was authenticated with an API key, limited to its scopes
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+}
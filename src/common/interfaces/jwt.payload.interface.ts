@@ -4,7 +4,11 @@ export interface JwtPayload {
   sub: string;
   email: string;
   role: UserRole;
+  // Only access tokens may authenticate requests; see JwtStrategy
+  type: 'access';
   tokenVersion?: number;
+  // Session (refresh token family) the token was issued for
+  sid?: string;
   iat?: number;
   exp?: number;
 }
\ No newline at end of file
@@ -0,0 +1,7 @@
+// Where a login or token refresh comes from; stored on the session it starts or renews
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+  // Chosen by the user at login; derived from the user agent otherwise
+  deviceName?: string;
+}
@@ -3,6 +3,41 @@ import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
 import { v4 as uuidv4 } from 'uuid';
 
+// Sliding window log kept in a sorted set scored by hit time. Trimming, counting
+// and recording run as one script, so concurrent instances never over-admit.
+// Redis' own clock is used, keeping the window consistent across instances.
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, now .. ':' .. ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local resetIn = window
+if oldest[2] then
+  resetIn = tonumber(oldest[2]) + window - now
+end
+return { allowed, count, resetIn }
+`;
+
+export interface SlidingWindowResult {
+  allowed: boolean;
+  // Hits inside the window, including this one when it was allowed
+  count: number;
+  // Milliseconds until the oldest hit leaves the window
+  resetInMs: number;
+}
+
 @Injectable()
 export class CacheService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(CacheService.name);
@@ -79,6 +114,68 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // Like set, but only stores the value when the key is not taken yet; returns whether it did
+  async setIfAbsent<T>(
+    key: string,
+    value: T,
+    ttlSeconds: number = this.defaultTTL,
+  ): Promise<boolean> {
+    try {
+      const namespacedKey = this.getNamespacedKey(key);
+      const serializedValue = this.serialize(value);
+      const result = await this.redis.set(namespacedKey, serializedValue, 'EX', ttlSeconds, 'NX');
+      return result === 'OK';
+    } catch (error: any) {
+      this.logger.error(`Cache setIfAbsent error for key ${key}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // Atomically adds `amount` to a counter that expires at `expiresAt`; returns the new value
+  async increment(key: string, amount: number, expiresAt: Date): Promise<number> {
+    try {
+      const namespacedKey = this.getNamespacedKey(key);
+      const results = await this.redis
+        .multi()
+        .incrby(namespacedKey, amount)
+        .expireat(namespacedKey, Math.ceil(expiresAt.getTime() / 1000))
+        .exec();
+
+      const [error, value] = results![0];
+      if (error) {
+        throw error;
+      }
+      return Number(value);
+    } catch (error: any) {
+      this.logger.error(`Cache increment error for key ${key}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // Records a hit in a sliding window of `windowMs`, unless `limit` hits are already in it
+  async hitSlidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+  ): Promise<SlidingWindowResult> {
+    try {
+      const namespacedKey = this.getNamespacedKey(key);
+      const [allowed, count, resetInMs] = (await this.redis.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        namespacedKey,
+        windowMs,
+        limit,
+        uuidv4(),
+      )) as [number, number, number];
+
+      return { allowed: allowed === 1, count, resetInMs };
+    } catch (error: any) {
+      this.logger.error(`Sliding window error for key ${key}: ${error.message}`);
+      throw error;
+    }
+  }
+
   async get<T>(key: string): Promise<T | null> {
     const start = Date.now();
     try {
@@ -0,0 +1,114 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { decodeCursor, encodeCursor, paginateByCursor } from './keyset-pagination.util';
+import { SortKey } from './sort.util';
+
+const keys: SortKey[] = [
+  { expression: 'task.createdAt', direction: 'DESC' },
+  { expression: 'task.id', direction: 'DESC' },
+];
+
+const createQueryBuilder = (rows: { id: string; createdAt: string }[]) => {
+  const qb = {
+    addSelect: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getRawAndEntities: jest.fn().mockResolvedValue({
+      entities: rows.map(row => ({ id: row.id })),
+      raw: rows.map(row => ({ keyset_0: row.createdAt, keyset_1: row.id })),
+    }),
+  };
+  return qb;
+};
+
+const rows = [
+  { id: 'c', createdAt: '2024-01-03 00:00:00.000001' },
+  { id: 'b', createdAt: '2024-01-02 00:00:00' },
+  { id: 'a', createdAt: '2024-01-01 00:00:00' },
+];
+
+describe('keyset pagination', () => {
+  describe('cursor encoding', () => {
+    it('should round-trip values and direction', () => {
+      const cursor = encodeCursor(keys, ['2024-01-01 00:00:00', 'a'], 'next');
+
+      expect(decodeCursor(cursor, keys)).toEqual(
+        expect.objectContaining({ d: 'next', v: ['2024-01-01 00:00:00', 'a'] }),
+      );
+    });
+
+    it('should treat an empty cursor as the first page', () => {
+      expect(decodeCursor('', keys)).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not-a-cursor', keys)).toThrow(BadRequestException);
+    });
+
+    it('should reject cursors issued for a different sort', () => {
+      const cursor = encodeCursor(keys, ['2024-01-01 00:00:00', 'a'], 'next');
+      const otherKeys: SortKey[] = [
+        { expression: 'task.title', direction: 'ASC' },
+        { expression: 'task.id', direction: 'ASC' },
+      ];
+
+      expect(() => decodeCursor(cursor, otherKeys)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('paginateByCursor', () => {
+    it('should fetch one extra row to detect a following page', async () => {
+      const qb = createQueryBuilder(rows);
+
+      const page = await paginateByCursor(
+        qb as unknown as SelectQueryBuilder<ObjectLiteral>,
+        keys,
+        '',
+        2,
+      );
+
+      expect(qb.limit).toHaveBeenCalledWith(3);
+      expect(qb.andWhere).not.toHaveBeenCalled();
+      expect(page.items.map(item => item.id)).toEqual(['c', 'b']);
+      expect(page.prevCursor).toBeNull();
+      expect(decodeCursor(page.nextCursor!, keys)!.v).toEqual(['2024-01-02 00:00:00', 'b']);
+    });
+
+    it('should return no next cursor on the last page', async () => {
+      const qb = createQueryBuilder(rows.slice(2));
+      const cursor = encodeCursor(keys, ['2024-01-02 00:00:00', 'b'], 'next');
+
+      const page = await paginateByCursor(
+        qb as unknown as SelectQueryBuilder<ObjectLiteral>,
+        keys,
+        cursor,
+        2,
+      );
+
+      expect(qb.andWhere).toHaveBeenCalled();
+      expect(page.items.map(item => item.id)).toEqual(['a']);
+      expect(page.nextCursor).toBeNull();
+      expect(decodeCursor(page.prevCursor!, keys)!.d).toBe('prev');
+    });
+
+    it('should walk backwards with reversed ordering', async () => {
+      // Backward queries come back in reverse order, closest row first
+      const qb = createQueryBuilder([rows[1], rows[0]]);
+      const cursor = encodeCursor(keys, ['2024-01-01 00:00:00', 'a'], 'prev');
+
+      const page = await paginateByCursor(
+        qb as unknown as SelectQueryBuilder<ObjectLiteral>,
+        keys,
+        cursor,
+        2,
+      );
+
+      expect(qb.orderBy).toHaveBeenCalledWith('task.createdAt', 'ASC', undefined);
+      expect(page.items.map(item => item.id)).toEqual(['c', 'b']);
+      expect(page.prevCursor).toBeNull();
+      expect(page.nextCursor).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { BadRequestException } from '@nestjs/common';
+import { Brackets, ObjectLiteral, SelectQueryBuilder, WhereExpressionBuilder } from 'typeorm';
+import { createHash } from 'crypto';
+import { CursorPage } from '../../types/pagination.interface';
+import { applySort, SortKey } from './sort.util';
+
+type CursorDirection = 'next' | 'prev';
+
+interface CursorPayload {
+  // Fingerprint of the sort the cursor was issued for
+  s: string;
+  d: CursorDirection;
+  v: (string | null)[];
+}
+
+const signatureOf = (keys: SortKey[]): string =>
+  createHash('sha1')
+    .update(keys.map(key => `${key.expression}:${key.direction}:${!!key.nullable}`).join('|'))
+    .digest('hex')
+    .substring(0, 12);
+
+export function encodeCursor(
+  keys: SortKey[],
+  values: (string | null)[],
+  direction: CursorDirection,
+): string {
+  const payload: CursorPayload = { s: signatureOf(keys), d: direction, v: values };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor. An empty cursor means "start from the first page"
+ * and yields null. Cursors issued for a different sort are rejected.
+ */
+export function decodeCursor(cursor: string, keys: SortKey[]): CursorPayload | null {
+  if (!cursor) {
+    return null;
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const isValid =
+    payload &&
+    (payload.d === 'next' || payload.d === 'prev') &&
+    Array.isArray(payload.v) &&
+    payload.v.length === keys.length &&
+    payload.v.every(value => value === null || typeof value === 'string');
+
+  if (!isValid) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (payload.s !== signatureOf(keys)) {
+    throw new BadRequestException('Cursor does not match the requested sort order');
+  }
+
+  return payload;
+}
+
+/**
+ * Runs a keyset ("seek") paginated query. Rows are compared against the
+ * cursor's sort values instead of being skipped with OFFSET, so pages stay
+ * stable while rows are inserted and deep pages cost the same as the first.
+ *
+ * The last key must be unique (typically the primary key). Only to-one joins
+ * are supported, since raw rows are mapped to entities by position.
+ */
+export async function paginateByCursor<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  keys: SortKey[],
+  cursor: string,
+  limit: number,
+): Promise<CursorPage<T>> {
+  const decoded = decodeCursor(cursor, keys);
+  const backward = decoded?.d === 'prev';
+
+  keys.forEach((key, index) => {
+    queryBuilder.addSelect(`CAST(${key.expression} AS text)`, `keyset_${index}`);
+  });
+  applySort(queryBuilder, keys, backward);
+
+  if (decoded) {
+    queryBuilder.andWhere(new Brackets(qb => applySeekCondition(qb, keys, decoded.v, backward)));
+  }
+
+  const { entities, raw } = await queryBuilder.limit(limit + 1).getRawAndEntities();
+
+  const hasMore = entities.length > limit;
+  const items = entities.slice(0, limit);
+  const rows = raw.slice(0, limit);
+  if (backward) {
+    items.reverse();
+    rows.reverse();
+  }
+
+  const valuesOf = (row: Record<string, string | null>) =>
+    keys.map((_key, index) => row[`keyset_${index}`] ?? null);
+
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  const hasNext = backward ? items.length > 0 : hasMore;
+  const hasPrev = backward ? hasMore : !!decoded && items.length > 0;
+
+  return {
+    items,
+    nextCursor: hasNext && last ? encodeCursor(keys, valuesOf(last), 'next') : null,
+    prevCursor: hasPrev && first ? encodeCursor(keys, valuesOf(first), 'prev') : null,
+  };
+}
+
+// Builds (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... honouring direction and NULLS LAST
+function applySeekCondition(
+  qb: WhereExpressionBuilder,
+  keys: SortKey[],
+  values: (string | null)[],
+  backward: boolean,
+): void {
+  keys.forEach((_key, index) => {
+    const branch = new Brackets(inner => {
+      for (let i = 0; i < index; i++) {
+        inner.andWhere(equalTo(keys[i], values[i], i));
+      }
+      inner.andWhere(beyond(keys[index], values[index], index, backward));
+    });
+
+    if (index === 0) {
+      qb.where(branch);
+    } else {
+      qb.orWhere(branch);
+    }
+  });
+}
+
+function equalTo(key: SortKey, value: string | null, index: number): Brackets {
+  return new Brackets(qb => {
+    if (value === null) {
+      qb.where(`${key.expression} IS NULL`);
+    } else {
+      qb.where(`${key.expression} = :keyset_${index}`, { [`keyset_${index}`]: value });
+    }
+  });
+}
+
+function beyond(key: SortKey, value: string | null, index: number, backward: boolean): Brackets {
+  const operator = (key.direction === 'ASC') !== backward ? '>' : '<';
+
+  return new Brackets(qb => {
+    if (value === null) {
+      // NULLs sort last: nothing follows them, every non-null value precedes them
+      qb.where(backward ? `${key.expression} IS NOT NULL` : '1 = 0');
+      return;
+    }
+
+    qb.where(`${key.expression} ${operator} :keyset_${index}`, { [`keyset_${index}`]: value });
+    if (key.nullable && !backward) {
+      qb.orWhere(`${key.expression} IS NULL`);
+    }
+  });
+}
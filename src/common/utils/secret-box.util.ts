@@ -0,0 +1,23 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// AES-256-GCM under a key derived from any passphrase; output is iv.tag.ciphertext in base64url
+export function sealSecret(plaintext: string, passphrase: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+// Throws when the value was tampered with or sealed under another passphrase
+export function openSecret(sealed: string, passphrase: string): string {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function deriveKey(passphrase: string): Buffer {
+  return createHash('sha256').update(passphrase).digest();
+}
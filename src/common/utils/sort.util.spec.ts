@@ -0,0 +1,73 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { applySort, parseSort, SortableFields } from './sort.util';
+
+const fields: SortableFields = {
+  createdAt: { expression: 'task.createdAt' },
+  dueDate: { expression: 'task.dueDate', nullable: true },
+  title: { expression: 'task.title' },
+  priority: { expression: 'CASE task.priority WHEN ... END' },
+};
+
+describe('sort utilities', () => {
+  describe('parseSort', () => {
+    it('should parse multiple keys with direction prefixes', () => {
+      const keys = parseSort({ sort: '-priority,dueDate,title' }, fields, '-createdAt', 'task.id');
+
+      expect(keys).toEqual([
+        { expression: 'CASE task.priority WHEN ... END', direction: 'DESC', nullable: undefined },
+        { expression: 'task.dueDate', direction: 'ASC', nullable: true },
+        { expression: 'task.title', direction: 'ASC', nullable: undefined },
+        { expression: 'task.id', direction: 'ASC' },
+      ]);
+    });
+
+    it('should fall back to the default sort', () => {
+      const keys = parseSort({}, fields, '-createdAt', 'task.id');
+
+      expect(keys.map(key => [key.expression, key.direction])).toEqual([
+        ['task.createdAt', 'DESC'],
+        ['task.id', 'DESC'],
+      ]);
+    });
+
+    it('should honour the sortBy and sortOrder pair', () => {
+      const keys = parseSort(
+        { sortBy: 'title', sortOrder: 'DESC' },
+        fields,
+        '-createdAt',
+        'task.id',
+      );
+
+      expect(keys[0]).toEqual(
+        expect.objectContaining({ expression: 'task.title', direction: 'DESC' }),
+      );
+    });
+
+    it('should reject fields outside the whitelist', () => {
+      expect(() => parseSort({ sort: 'password' }, fields, '-createdAt', 'task.id')).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject duplicate fields', () => {
+      expect(() => parseSort({ sort: 'title,-title' }, fields, '-createdAt', 'task.id')).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('applySort', () => {
+    it('should order nullable keys with NULLs last', () => {
+      const qb = { orderBy: jest.fn(), addOrderBy: jest.fn() };
+
+      applySort(qb as unknown as SelectQueryBuilder<ObjectLiteral>, [
+        { expression: 'task.dueDate', direction: 'DESC', nullable: true },
+        { expression: 'task.id', direction: 'DESC' },
+      ]);
+
+      expect(qb.orderBy).toHaveBeenCalledWith('task.dueDate', 'DESC', 'NULLS LAST');
+      expect(qb.addOrderBy).toHaveBeenCalledWith('task.id', 'DESC', undefined);
+    });
+  });
+});
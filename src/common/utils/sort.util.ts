@@ -0,0 +1,99 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { PaginationOptions } from '../../types/pagination.interface';
+
+export interface SortKey {
+  // SQL expression on the query alias, e.g. 'task.createdAt'
+  expression: string;
+  direction: 'ASC' | 'DESC';
+  // Nullable keys always sort their NULLs last, regardless of direction
+  nullable?: boolean;
+}
+
+export interface SortableField {
+  expression: string;
+  nullable?: boolean;
+}
+
+// Public sort field name -> SQL expression it is allowed to order by
+export type SortableFields = Record<string, SortableField>;
+
+const MAX_SORT_KEYS = 5;
+
+/**
+ * Resolves `sort=-priority,dueDate` (or the legacy `sortBy`/`sortOrder` pair)
+ * against a whitelist of sortable fields. A leading `-` means descending.
+ * The unique tie-breaker is always appended so the order is total, which
+ * keeps offset pages deterministic and makes the keys usable for cursors.
+ */
+export function parseSort(
+  options: PaginationOptions,
+  fields: SortableFields,
+  defaultSort: string,
+  tieBreaker: string,
+): SortKey[] {
+  const spec =
+    options.sort ??
+    (options.sortBy ? `${options.sortOrder === 'DESC' ? '-' : ''}${options.sortBy}` : defaultSort);
+
+  const tokens = spec
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean);
+
+  if (tokens.length > MAX_SORT_KEYS) {
+    throw new BadRequestException(`At most ${MAX_SORT_KEYS} sort fields are allowed`);
+  }
+
+  const seen = new Set<string>();
+  const keys = tokens.map<SortKey>(token => {
+    const descending = token.startsWith('-');
+    const name = descending ? token.substring(1) : token;
+    const field = Object.prototype.hasOwnProperty.call(fields, name) ? fields[name] : undefined;
+
+    if (!field) {
+      throw new BadRequestException(
+        `Cannot sort by "${name}". Allowed fields: ${Object.keys(fields).join(', ')}`,
+      );
+    }
+    if (seen.has(name)) {
+      throw new BadRequestException(`Duplicate sort field "${name}"`);
+    }
+    seen.add(name);
+
+    return {
+      expression: field.expression,
+      direction: descending ? 'DESC' : 'ASC',
+      nullable: field.nullable,
+    };
+  });
+
+  if (!keys.some(key => key.expression === tieBreaker)) {
+    keys.push({
+      expression: tieBreaker,
+      direction: keys.length ? keys[keys.length - 1].direction : 'ASC',
+    });
+  }
+
+  return keys;
+}
+
+// Applies the keys as ORDER BY clauses; `reverse` flips every key for backward paging
+export function applySort<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  keys: SortKey[],
+  reverse = false,
+): SelectQueryBuilder<T> {
+  keys.forEach((key, index) => {
+    const ascending = (key.direction === 'ASC') !== reverse;
+    const nulls = key.nullable ? (reverse ? 'NULLS FIRST' : 'NULLS LAST') : undefined;
+
+    if (index === 0) {
+      queryBuilder.orderBy(key.expression, ascending ? 'ASC' : 'DESC', nulls);
+    } else {
+      queryBuilder.addOrderBy(key.expression, ascending ? 'ASC' : 'DESC', nulls);
+    }
+  });
+
+  return queryBuilder;
+}
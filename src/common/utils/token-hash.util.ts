@@ -0,0 +1,6 @@
+import { createHash } from 'crypto';
+
+// Opaque tokens are stored and looked up by their SHA-256 digest, never in plaintext
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
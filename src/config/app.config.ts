@@ -3,4 +3,19 @@ import { registerAs } from '@nestjs/config';
 export default registerAs('app', () => ({
   port: parseInt(process.env.PORT || '3000', 10),
   environment: process.env.NODE_ENV || 'development',
+  // Days a deleted task stays restorable before it is purged for good
+  taskTrashRetentionDays: parseInt(process.env.TASK_TRASH_RETENTION_DAYS ?? '30', 10),
+  // How long a response is replayed for a repeated Idempotency-Key
+  idempotencyKeyTtlSeconds: parseInt(process.env.IDEMPOTENCY_KEY_TTL_SECONDS ?? '86400', 10),
+  // Page of the client app that password reset links point to; the token is appended
+  passwordResetUrl: process.env.PASSWORD_RESET_URL || 'http://localhost:3001/reset-password',
+  passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES ?? '30', 10),
+  // Page of the client app that email verification links point to; the token is appended
+  emailVerificationUrl: process.env.EMAIL_VERIFICATION_URL || 'http://localhost:3001/verify-email',
+  // full, read-only or no-task-creation (see UnverifiedEmailPolicy)
+  unverifiedEmailPolicy: process.env.UNVERIFIED_EMAIL_POLICY || 'no-task-creation',
+  // Name authenticator apps show next to the account
+  twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || 'TaskFlow',
+  // Admin accounts can only use the API once they have enrolled in two-factor authentication
+  requireAdminTwoFactor: process.env.REQUIRE_ADMIN_TWO_FACTOR === 'true',
 })); 
\ No newline at end of file
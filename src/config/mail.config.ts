@@ -0,0 +1,8 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('mail', () => ({
+  // console logs every message, file writes each one to `fileDirectory`
+  transport: process.env.MAIL_TRANSPORT || 'console',
+  from: process.env.MAIL_FROM || 'TaskFlow <no-reply@taskflow.local>',
+  fileDirectory: process.env.MAIL_FILE_DIRECTORY || 'tmp/mail',
+}));
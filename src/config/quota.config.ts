@@ -0,0 +1,52 @@
+import { registerAs } from '@nestjs/config';
+import { PlanTier } from '../common/enums/plan-tier.enum';
+import { UsageMetric } from '../modules/usage/enums/usage-metric.enum';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// null means unlimited, 0 means the plan does not include the metric at all
+export type PlanQuotas = Record<QuotaPeriod, Record<UsageMetric, number | null>>;
+
+const DEFAULT_QUOTAS: Record<PlanTier, PlanQuotas> = {
+  [PlanTier.FREE]: {
+    daily: { apiCalls: 2000, tasksCreated: 50, batchItems: 100 },
+    monthly: { apiCalls: 30000, tasksCreated: 500, batchItems: 1000 },
+  },
+  [PlanTier.PRO]: {
+    daily: { apiCalls: 50000, tasksCreated: 1000, batchItems: 5000 },
+    monthly: { apiCalls: 1000000, tasksCreated: 20000, batchItems: 100000 },
+  },
+  [PlanTier.ENTERPRISE]: {
+    daily: { apiCalls: null, tasksCreated: null, batchItems: null },
+    monthly: { apiCalls: null, tasksCreated: null, batchItems: null },
+  },
+};
+
+// tasksCreated -> TASKS_CREATED
+const toEnvName = (name: string) => name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+
+// Each limit can be overridden, e.g. QUOTA_FREE_DAILY_TASKS_CREATED=100 or =unlimited
+const withEnvOverrides = (plan: PlanTier, quotas: PlanQuotas): PlanQuotas => {
+  const resolved = {} as PlanQuotas;
+
+  for (const period of Object.keys(quotas) as QuotaPeriod[]) {
+    resolved[period] = { ...quotas[period] };
+    for (const metric of Object.values(UsageMetric)) {
+      const value =
+        process.env[`QUOTA_${toEnvName(plan)}_${toEnvName(period)}_${toEnvName(metric)}`];
+      if (value !== undefined) {
+        resolved[period][metric] = value === 'unlimited' ? null : parseInt(value, 10);
+      }
+    }
+  }
+
+  return resolved;
+};
+
+export default registerAs(
+  'quotas',
+  () =>
+    Object.fromEntries(
+      Object.values(PlanTier).map(plan => [plan, withEnvOverrides(plan, DEFAULT_QUOTAS[plan])]),
+    ) as Record<PlanTier, PlanQuotas>,
+);
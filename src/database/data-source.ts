@@ -1,6 +1,27 @@
 import { DataSource, DataSourceOptions } from 'typeorm';
 import * as dotenv from 'dotenv';
 import { CreateInitialSchema1710752400000 } from './migrations/1710752400000-CreateInitialSchema';
+import { AddTaskSearchVector1792368000000 } from './migrations/1792368000000-AddTaskSearchVector';
+import { AddTaskHierarchy1792368060000 } from './migrations/1792368060000-AddTaskHierarchy';
+import { AddTaskDependencies1792368120000 } from './migrations/1792368120000-AddTaskDependencies';
+import { AddTaskRecurrence1792368180000 } from './migrations/1792368180000-AddTaskRecurrence';
+import { AddTags1792368240000 } from './migrations/1792368240000-AddTags';
+import { AddProjects1792368300000 } from './migrations/1792368300000-AddProjects';
+import { AddTaskComments1792368360000 } from './migrations/1792368360000-AddTaskComments';
+import { AddTaskAuditLogs1792368420000 } from './migrations/1792368420000-AddTaskAuditLogs';
+import { AddTaskSoftDelete1792368480000 } from './migrations/1792368480000-AddTaskSoftDelete';
+import { AddUserSoftDelete1792368540000 } from './migrations/1792368540000-AddUserSoftDelete';
+import { AddTaskVersion1792368600000 } from './migrations/1792368600000-AddTaskVersion';
+import { AddUserPlan1792368660000 } from './migrations/1792368660000-AddUserPlan';
+import { AddRefreshTokenFamilies1792368720000 } from './migrations/1792368720000-AddRefreshTokenFamilies';
+import { AddUserTokenVersion1792368780000 } from './migrations/1792368780000-AddUserTokenVersion';
+import { AddRefreshTokenDevices1792368840000 } from './migrations/1792368840000-AddRefreshTokenDevices';
+import { AddPasswordResetTokens1792368900000 } from './migrations/1792368900000-AddPasswordResetTokens';
+import { AddUserEmailVerification1792368960000 } from './migrations/1792368960000-AddUserEmailVerification';
+import { AddUserTwoFactor1792369020000 } from './migrations/1792369020000-AddUserTwoFactor';
+import { AddApiKeys1792369080000 } from './migrations/1792369080000-AddApiKeys';
+import { DetachTasksFromDeletedProjects1792369140000 } from './migrations/1792369140000-DetachTasksFromDeletedProjects';
+import { AddRefreshTokenRotatedAt1792369200000 } from './migrations/1792369200000-AddRefreshTokenRotatedAt';
 
 // Load environment variables
 dotenv.config();
@@ -13,7 +34,30 @@ export const dataSourceOptions: DataSourceOptions = {
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-  migrations: [CreateInitialSchema1710752400000],
+  migrations: [
+    CreateInitialSchema1710752400000,
+    AddTaskSearchVector1792368000000,
+    AddTaskHierarchy1792368060000,
+    AddTaskDependencies1792368120000,
+    AddTaskRecurrence1792368180000,
+    AddTags1792368240000,
+    AddProjects1792368300000,
+    AddTaskComments1792368360000,
+    AddTaskAuditLogs1792368420000,
+    AddTaskSoftDelete1792368480000,
+    AddUserSoftDelete1792368540000,
+    AddTaskVersion1792368600000,
+    AddUserPlan1792368660000,
+    AddRefreshTokenFamilies1792368720000,
+    AddUserTokenVersion1792368780000,
+    AddRefreshTokenDevices1792368840000,
+    AddPasswordResetTokens1792368900000,
+    AddUserEmailVerification1792368960000,
+    AddUserTwoFactor1792369020000,
+    AddApiKeys1792369080000,
+    DetachTasksFromDeletedProjects1792369140000,
+    AddRefreshTokenRotatedAt1792369200000,
+  ],
   migrationsTableName: 'migrations',
   synchronize: false, // Important: Set to false for production
   logging: process.env.NODE_ENV === 'development',
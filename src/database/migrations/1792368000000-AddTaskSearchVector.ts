@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskSearchVector1792368000000 implements MigrationInterface {
+  name = 'AddTaskSearchVector1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Title matches outrank description matches
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+        GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+          setweight(to_tsvector('english', coalesce("description", '')), 'B')
+        ) STORED
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_tasks_search_vector" ON "tasks" USING GIN ("search_vector")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_search_vector"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "search_vector"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskDependencies1792368120000 implements MigrationInterface {
+  name = 'AddTaskDependencies1792368120000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "task_dependencies" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "blocker_id" uuid NOT NULL,
+        "blocked_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_dependencies" PRIMARY KEY ("id"),
+        CONSTRAINT "CHK_task_dependencies_not_self" CHECK ("blocker_id" <> "blocked_id"),
+        CONSTRAINT "FK_task_dependencies_blocker" FOREIGN KEY ("blocker_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_dependencies_blocked" FOREIGN KEY ("blocked_id") REFERENCES "tasks"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_task_dependencies_pair" ON "task_dependencies" ("blocker_id", "blocked_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_dependencies_blocked_id" ON "task_dependencies" ("blocked_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_dependencies"`);
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTags1792368240000 implements MigrationInterface {
+  name = 'AddTags1792368240000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "tags" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(50) NOT NULL,
+        "color" varchar(7) NOT NULL DEFAULT '#6B7280',
+        "user_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_tags_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Case-insensitive, so "Backend" and "backend" cannot coexist for one user
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_tags_user_name" ON "tags" ("user_id", LOWER("name"))`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE "task_tags" (
+        "task_id" uuid NOT NULL,
+        "tag_id" uuid NOT NULL,
+        CONSTRAINT "PK_task_tags" PRIMARY KEY ("task_id", "tag_id"),
+        CONSTRAINT "FK_task_tags_task" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_tags_tag" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`CREATE INDEX "IDX_task_tags_tag_id" ON "task_tags" ("tag_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_tags"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "tags"`);
+  }
+}
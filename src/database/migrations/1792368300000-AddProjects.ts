@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProjects1792368300000 implements MigrationInterface {
+  name = 'AddProjects1792368300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "projects" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(100) NOT NULL,
+        "description" text,
+        "archived" boolean NOT NULL DEFAULT false,
+        "owner_id" uuid NOT NULL,
+        "default_assignee_id" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_projects_owner" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_projects_default_assignee" FOREIGN KEY ("default_assignee_id") REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_projects_owner_id" ON "projects" ("owner_id")`);
+
+    await queryRunner.query(`
+      CREATE TABLE "project_members" (
+        "project_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        CONSTRAINT "PK_project_members" PRIMARY KEY ("project_id", "user_id"),
+        CONSTRAINT "FK_project_members_project" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_project_members_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_project_members_user_id" ON "project_members" ("user_id")`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "project_id" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_project" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_tasks_project_id" ON "tasks" ("project_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "FK_tasks_project"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "project_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "project_members"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "projects"`);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskComments1792368360000 implements MigrationInterface {
+  name = 'AddTaskComments1792368360000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "task_comments" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "author_id" uuid NOT NULL,
+        "parent_id" uuid,
+        "body" text NOT NULL,
+        "edit_history" jsonb NOT NULL DEFAULT '[]',
+        "edited_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_task_comments_task" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_comments_author" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_comments_parent" FOREIGN KEY ("parent_id") REFERENCES "task_comments"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_comments_task_id" ON "task_comments" ("task_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_comments_parent_id" ON "task_comments" ("parent_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comments"`);
+  }
+}
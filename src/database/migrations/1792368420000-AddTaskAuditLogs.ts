@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskAuditLogs1792368420000 implements MigrationInterface {
+  name = 'AddTaskAuditLogs1792368420000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "task_audit_logs" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "action" varchar(20) NOT NULL,
+        "actor_id" uuid,
+        "source" varchar(20) NOT NULL,
+        "changes" jsonb NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_audit_logs_task_id" ON "task_audit_logs" ("task_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_audit_logs_actor_id" ON "task_audit_logs" ("actor_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_audit_logs_created_at" ON "task_audit_logs" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_audit_logs"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskSoftDelete1792368480000 implements MigrationInterface {
+  name = 'AddTaskSoftDelete1792368480000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "deleted_at" TIMESTAMP`);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_tasks_deleted_at" ON "tasks" ("deleted_at")`,
+    );
+
+    // A trashed occurrence must not keep its slot in the series
+    await queryRunner.query(`DROP INDEX IF EXISTS "UQ_tasks_series_due_date"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_tasks_series_due_date" ON "tasks" ("series_id", "due_date") WHERE "deleted_at" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Trashed rows would violate the full unique index, so they go first
+    await queryRunner.query(`DELETE FROM "tasks" WHERE "deleted_at" IS NOT NULL`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "UQ_tasks_series_due_date"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_tasks_series_due_date" ON "tasks" ("series_id", "due_date")`,
+    );
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_deleted_at"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "deleted_at"`);
+  }
+}
@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefreshTokenFamilies1792368720000 implements MigrationInterface {
+  name = 'AddRefreshTokenFamilies1792368720000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "refresh_tokens" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "token" text NOT NULL,
+        "user_id" uuid NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "is_active" boolean NOT NULL DEFAULT true,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_refresh_tokens_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_refresh_tokens_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Every token issued before families existed starts a family of its own
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "family_id" uuid`,
+    );
+    await queryRunner.query(
+      `UPDATE "refresh_tokens" SET "family_id" = "id" WHERE "family_id" IS NULL`,
+    );
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" ALTER COLUMN "family_id" SET NOT NULL`);
+
+    // Tokens were stored in plaintext; keep them usable by storing their digest instead
+    await queryRunner.query(
+      `UPDATE "refresh_tokens" SET "token" = encode(sha256(convert_to("token", 'UTF8')), 'hex')`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_refresh_tokens_family_id" ON "refresh_tokens" ("family_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Hashed tokens cannot be turned back into plaintext; they simply stop matching
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_refresh_tokens_family_id"`);
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "family_id"`);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefreshTokenDevices1792368840000 implements MigrationInterface {
+  name = 'AddRefreshTokenDevices1792368840000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "refresh_tokens"
+        ADD COLUMN IF NOT EXISTS "user_agent" text,
+        ADD COLUMN IF NOT EXISTS "ip_address" varchar(45),
+        ADD COLUMN IF NOT EXISTS "device_name" varchar(100),
+        ADD COLUMN IF NOT EXISTS "last_used_at" TIMESTAMP
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "refresh_tokens"
+        DROP COLUMN IF EXISTS "last_used_at",
+        DROP COLUMN IF EXISTS "device_name",
+        DROP COLUMN IF EXISTS "ip_address",
+        DROP COLUMN IF EXISTS "user_agent"
+    `);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserTwoFactor1792369020000 implements MigrationInterface {
+  name = 'AddUserTwoFactor1792369020000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        ADD COLUMN IF NOT EXISTS "two_factor_secret" text,
+        ADD COLUMN IF NOT EXISTS "two_factor_enabled_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "two_factor_recovery_codes" text[],
+        ADD COLUMN IF NOT EXISTS "two_factor_last_step" integer
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        DROP COLUMN IF EXISTS "two_factor_last_step",
+        DROP COLUMN IF EXISTS "two_factor_recovery_codes",
+        DROP COLUMN IF EXISTS "two_factor_enabled_at",
+        DROP COLUMN IF EXISTS "two_factor_secret"
+    `);
+  }
+}
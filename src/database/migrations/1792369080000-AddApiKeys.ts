@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddApiKeys1792369080000 implements MigrationInterface {
+  name = 'AddApiKeys1792369080000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "api_keys" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying(100) NOT NULL,
+        "key_hash" text NOT NULL,
+        "prefix" character varying(16) NOT NULL,
+        "scopes" text array NOT NULL,
+        "user_id" uuid NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "last_used_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_api_keys_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_api_keys_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "UQ_api_keys_key_hash" ON "api_keys" ("key_hash")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_api_keys_user_id" ON "api_keys" ("user_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "api_keys"`);
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefreshTokenRotatedAt1792369200000 implements MigrationInterface {
+  name = 'AddRefreshTokenRotatedAt1792369200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Tells rotated-out tokens, whose reuse means a leak, from ones ended by logout or revocation
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "rotated_at" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "rotated_at"`);
+  }
+}
@@ -39,7 +39,22 @@ async function bootstrap() {
     app.enableCors({
       origin: configService.get('ALLOWED_ORIGINS')?.split(',') || ['http://localhost:3000'],
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'If-Match',
+        'If-None-Match',
+        'Idempotency-Key',
+        'X-API-Key',
+      ],
+      exposedHeaders: [
+        'ETag',
+        'Idempotent-Replayed',
+        'RateLimit-Limit',
+        'RateLimit-Remaining',
+        'RateLimit-Reset',
+        'Retry-After',
+      ],
       credentials: true,
       maxAge: 86400, // 24 hours
     });
@@ -78,6 +93,15 @@ async function bootstrap() {
           description: 'Enter JWT token',
           in: 'header',
         })
+        .addApiKey(
+          {
+            type: 'apiKey',
+            name: 'X-API-Key',
+            description: 'API key, for endpoints that accept them',
+            in: 'header',
+          },
+          'api-key',
+        )
         .addServer(`http://localhost:${configService.get('PORT') || 3000}`, 'Development')
         .build();
 
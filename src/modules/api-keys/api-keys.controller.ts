@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyResponseDto, CreatedApiKeyResponseDto } from './dto/api-key-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+// Keys are managed with a logged-in session only; a key cannot mint further keys
+@ApiTags('api-keys')
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key; the key is shown only in this response' })
+  @ApiResponse({ status: 201, type: CreatedApiKeyResponseDto })
+  create(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CreatedApiKeyResponseDto> {
+    return this.apiKeysService.create(user.id, createApiKeyDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your API keys' })
+  @ApiResponse({ status: 200, type: [ApiKeyResponseDto] })
+  findAll(@CurrentUser() user: AuthenticatedUser): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeysService.findAllForUser(user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 404, description: 'No API key with this id' })
+  revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    return this.apiKeysService.revoke(user.id, id);
+  }
+}
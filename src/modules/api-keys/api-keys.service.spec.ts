@@ -0,0 +1,106 @@
+import { NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+import { hashToken } from '../../common/utils/token-hash.util';
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+
+  beforeEach(() => {
+    repository = {
+      create: jest.fn(entity => entity),
+      save: jest.fn(entity => Promise.resolve({ id: 'key-id', createdAt: new Date(), ...entity })),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+
+    service = new ApiKeysService(repository as unknown as Repository<ApiKey>);
+  });
+
+  it('should return the key once and store only its hash', async () => {
+    const result = await service.create('user-id', {
+      name: 'CI',
+      scopes: [ApiKeyScope.TASKS_READ],
+      expiresInDays: 30,
+    });
+
+    expect(result.key).toMatch(/^tf_[\w-]{43}$/);
+    expect(result.prefix).toBe(result.key.slice(0, 11));
+    const [saved] = repository.save.mock.calls[0];
+    expect(saved.keyHash).toBe(hashToken(result.key));
+    expect(JSON.stringify(saved)).not.toContain(result.key);
+    expect(saved.expiresAt.getTime()).toBeCloseTo(Date.now() + 30 * 24 * 60 * 60 * 1000, -4);
+  });
+
+  it('should leave the key out of listings', async () => {
+    repository.find.mockResolvedValue([
+      { id: 'key-id', name: 'CI', keyHash: 'hash', prefix: 'tf_abcdefgh', scopes: [] },
+    ]);
+
+    const [listed] = await service.findAllForUser('user-id');
+
+    expect(listed).not.toHaveProperty('keyHash');
+    expect(listed).not.toHaveProperty('key');
+  });
+
+  it('should only revoke keys of the user', async () => {
+    repository.delete.mockResolvedValue({ affected: 0 });
+
+    await expect(service.revoke('user-id', 'key-id')).rejects.toThrow(NotFoundException);
+    expect(repository.delete).toHaveBeenCalledWith({ id: 'key-id', userId: 'user-id' });
+  });
+
+  describe('authenticate', () => {
+    const apiKey = {
+      id: 'key-id',
+      expiresAt: new Date(Date.now() + 60000),
+      lastUsedAt: null as Date | null,
+    };
+
+    it('should find the key by its hash and record the use', async () => {
+      repository.findOne.mockResolvedValue(apiKey);
+
+      await expect(service.authenticate('tf_secret')).resolves.toBe(apiKey);
+      await flushPromises();
+
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { keyHash: hashToken('tf_secret') },
+      });
+      expect(repository.update).toHaveBeenCalledWith('key-id', { lastUsedAt: expect.any(Date) });
+    });
+
+    it('should not write again for a key used moments ago', async () => {
+      repository.findOne.mockResolvedValue({ ...apiKey, lastUsedAt: new Date() });
+
+      await service.authenticate('tf_secret');
+      await flushPromises();
+
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired keys', async () => {
+      repository.findOne.mockResolvedValue({ ...apiKey, expiresAt: new Date(Date.now() - 1) });
+
+      await expect(service.authenticate('tf_secret')).resolves.toBeNull();
+    });
+
+    it('should not look up tokens that are not API keys', async () => {
+      await expect(service.authenticate('eyJhbGciOiJIUzI1NiJ9.e30.sig')).resolves.toBeNull();
+      expect(repository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { Repository } from 'typeorm';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyResponseDto, CreatedApiKeyResponseDto } from './dto/api-key-response.dto';
+import { hashToken } from '../../common/utils/token-hash.util';
+
+// Lets the API key strategy tell keys from JWTs in a Bearer header
+export const API_KEY_PREFIX = 'tf_';
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+  private readonly DEFAULT_EXPIRES_IN_DAYS = 90;
+  private readonly LAST_USED_PRECISION = 60 * 1000; // ms, spares a write on every request
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeysRepository: Repository<ApiKey>,
+  ) {}
+
+  async create(
+    userId: string,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const expiresInDays = createApiKeyDto.expiresInDays ?? this.DEFAULT_EXPIRES_IN_DAYS;
+
+    const apiKey = await this.apiKeysRepository.save(
+      this.apiKeysRepository.create({
+        name: createApiKeyDto.name,
+        scopes: createApiKeyDto.scopes,
+        keyHash: hashToken(key),
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        userId,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        lastUsedAt: null,
+      }),
+    );
+
+    this.logger.log(`API key ${apiKey.id} created for user ${userId}`);
+    return { ...this.toResponse(apiKey), key };
+  }
+
+  async findAllForUser(userId: string): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeysRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return apiKeys.map(apiKey => this.toResponse(apiKey));
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    const result = await this.apiKeysRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException('API key not found');
+    }
+
+    this.logger.log(`API key ${id} of user ${userId} revoked`);
+  }
+
+  // Returns the key's record when it exists and has not expired, and notes that it was used
+  async authenticate(key: string): Promise<ApiKey | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeysRepository.findOne({ where: { keyHash: hashToken(key) } });
+    if (!apiKey || apiKey.expiresAt < new Date()) {
+      return null;
+    }
+
+    this.touch(apiKey).catch(error =>
+      this.logger.error(`Failed to record use of API key ${apiKey.id}:`, error),
+    );
+    return apiKey;
+  }
+
+  private async touch(apiKey: ApiKey): Promise<void> {
+    const now = new Date();
+    if (
+      apiKey.lastUsedAt &&
+      now.getTime() - apiKey.lastUsedAt.getTime() < this.LAST_USED_PRECISION
+    ) {
+      return;
+    }
+
+    await this.apiKeysRepository.update(apiKey.id, { lastUsedAt: now });
+  }
+
+  private toResponse(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
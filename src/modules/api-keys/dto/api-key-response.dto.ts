@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'CI pipeline' })
+  name: string;
+
+  @ApiProperty({ example: 'tf_Xk3m9qP7', description: 'Start of the key, to tell keys apart' })
+  prefix: string;
+
+  @ApiProperty({ enum: ApiKeyScope, isArray: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ example: '2024-06-16T09:30:00.000Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: '2024-03-18T09:30:00.000Z', nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ example: '2024-03-18T09:30:00.000Z' })
+  createdAt: Date;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    example: 'tf_Xk3m9qP7...',
+    description: 'Shown only in this response; send it as a Bearer token or X-API-Key header',
+  })
+  key: string;
+}
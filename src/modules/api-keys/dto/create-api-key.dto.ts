@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'CI pipeline' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: ApiKeyScope, isArray: true, example: [ApiKeyScope.TASKS_READ] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ example: 90, required: false, description: 'Days until the key expires' })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  expiresInDays?: number;
+}
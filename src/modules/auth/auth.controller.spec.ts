@@ -1,10 +1,17 @@
+import { CallHandler } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { PasswordResetService } from './password-reset.service';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { IdempotencyInterceptor } from '../../common/interceptors/idempotency.interceptor';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { PlanTier } from '../../common/enums/plan-tier.enum';
 
 const mockAuthService = {
   login: jest.fn(),
@@ -12,6 +19,32 @@ const mockAuthService = {
   refreshTokens: jest.fn(),
   logout: jest.fn(),
   revokeAllRefreshTokens: jest.fn(),
+  listSessions: jest.fn(),
+  revokeSession: jest.fn(),
+  revokeOtherSessions: jest.fn(),
+  completeTwoFactorLogin: jest.fn(),
+};
+
+const currentUser = {
+  id: 'user-id',
+  email: 'user@example.com',
+  name: 'User',
+  role: UserRole.USER,
+  plan: PlanTier.FREE,
+  emailVerified: true,
+  twoFactorEnabled: false,
+  sessionId: 'session-id',
+};
+
+const mockPasswordResetService = {
+  requestReset: jest.fn(),
+  resetPassword: jest.fn(),
+};
+
+const mockTwoFactorService = {
+  enroll: jest.fn(),
+  confirm: jest.fn(),
+  disable: jest.fn(),
 };
 
 describe('AuthController', () => {
@@ -25,8 +58,16 @@ describe('AuthController', () => {
           provide: AuthService,
           useValue: mockAuthService,
         },
+        { provide: PasswordResetService, useValue: mockPasswordResetService },
+        { provide: EmailVerificationService, useValue: { verify: jest.fn(), resend: jest.fn() } },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
       ],
-    }).compile();
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideInterceptor(IdempotencyInterceptor)
+      .useValue({ intercept: (_context: unknown, next: CallHandler) => next.handle() })
+      .compile();
 
     controller = module.get<AuthController>(AuthController);
   });
@@ -38,9 +79,12 @@ describe('AuthController', () => {
     const expectedResult = { accessToken: 'access', refreshToken: 'refresh', user: {} };
     mockAuthService.login.mockResolvedValue(expectedResult);
 
-    const result = await controller.login(dto);
+    const result = await controller.login(dto, 'test-agent', '127.0.0.1');
     expect(result).toEqual(expectedResult);
-    expect(mockAuthService.login).toHaveBeenCalledWith(dto);
+    expect(mockAuthService.login).toHaveBeenCalledWith(dto, {
+      userAgent: 'test-agent',
+      ipAddress: '127.0.0.1',
+    });
   });
 
   it('should register a user', async () => {
@@ -53,9 +97,12 @@ describe('AuthController', () => {
     const expectedResult = { accessToken: 'access', refreshToken: 'refresh', user: {} };
     mockAuthService.register.mockResolvedValue(expectedResult);
 
-    const result = await controller.register(dto);
+    const result = await controller.register(dto, 'test-agent', '127.0.0.1');
     expect(result).toEqual(expectedResult);
-    expect(mockAuthService.register).toHaveBeenCalledWith(dto);
+    expect(mockAuthService.register).toHaveBeenCalledWith(dto, {
+      userAgent: 'test-agent',
+      ipAddress: '127.0.0.1',
+    });
   });
 
   it('should refresh tokens', async () => {
@@ -63,29 +110,70 @@ describe('AuthController', () => {
     const expectedResult = { accessToken: 'new-access', refreshToken: 'new-refresh', user: {} };
     mockAuthService.refreshTokens.mockResolvedValue(expectedResult);
 
-    const result = await controller.refresh(dto);
+    const result = await controller.refresh(dto, 'test-agent', '127.0.0.1');
+    expect(result).toEqual(expectedResult);
+    expect(mockAuthService.refreshTokens).toHaveBeenCalledWith(dto.refreshToken, {
+      userAgent: 'test-agent',
+      ipAddress: '127.0.0.1',
+    });
+  });
+
+  it('should complete a two-factor login', async () => {
+    const expectedResult = { accessToken: 'access', refreshToken: 'refresh', user: {} };
+    mockAuthService.completeTwoFactorLogin.mockResolvedValue(expectedResult);
+
+    const result = await controller.verifyTwoFactor(
+      { challengeToken: 'challenge', code: '123456' },
+      'test-agent',
+      '127.0.0.1',
+    );
     expect(result).toEqual(expectedResult);
-    expect(mockAuthService.refreshTokens).toHaveBeenCalledWith(dto.refreshToken);
+    expect(mockAuthService.completeTwoFactorLogin).toHaveBeenCalledWith('challenge', '123456', {
+      userAgent: 'test-agent',
+      ipAddress: '127.0.0.1',
+    });
   });
 
   it('should logout a user', async () => {
     const req = {
       headers: { authorization: 'Bearer some-access-token' },
-      user: { sub: 'user-id' },
+      user: { id: 'user-id', sessionId: 'session-id' },
     };
 
     const result = await controller.logout(req);
     expect(result).toEqual({ message: 'Logout successful' });
-    expect(mockAuthService.logout).toHaveBeenCalledWith('some-access-token', 'user-id');
+    expect(mockAuthService.logout).toHaveBeenCalledWith(
+      'some-access-token',
+      'user-id',
+      'session-id',
+    );
   });
 
   it('should revoke all refresh tokens', async () => {
     const req = {
-      user: { sub: 'user-id' },
+      user: { id: 'user-id' },
     };
 
     const result = await controller.revokeAllRefreshTokens(req);
     expect(result).toEqual({ message: 'All refresh tokens have been revoked' });
     expect(mockAuthService.revokeAllRefreshTokens).toHaveBeenCalledWith('user-id');
   });
+
+  it('should revoke every session but the current one', async () => {
+    mockAuthService.revokeOtherSessions.mockResolvedValue(2);
+
+    await expect(controller.revokeOtherSessions(currentUser)).resolves.toEqual({ revoked: 2 });
+    expect(mockAuthService.revokeOtherSessions).toHaveBeenCalledWith('user-id', 'session-id');
+  });
+
+  it('should answer forgot-password the same way for any email', async () => {
+    mockPasswordResetService.requestReset.mockResolvedValue(undefined);
+
+    const result = await controller.forgotPassword({ email: 'nobody@example.com' });
+
+    expect(result).toEqual({
+      message: 'If an account exists for this email, a password reset link has been sent',
+    });
+    expect(mockPasswordResetService.requestReset).toHaveBeenCalledWith('nobody@example.com');
+  });
 });
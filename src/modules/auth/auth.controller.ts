@@ -6,7 +6,13 @@ import {
   Request,
   HttpCode,
   HttpStatus,
-  Delete
+  Delete,
+  UseInterceptors,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Headers,
+  Ip,
 } from '@nestjs/common';
 import { 
   ApiTags, 
@@ -23,29 +29,85 @@ import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { CustomThrottlerGuard } from '../../common/guards/custom-throttler.guard';
+import { IdempotencyInterceptor } from '../../common/interceptors/idempotency.interceptor';
+import { IdempotencyOmit } from '../../common/decorators/idempotency-omit.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { RevokeSessionsResponseDto, SessionResponseDto } from './dto/session.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import { PasswordResetService } from './password-reset.service';
+import { VerifyEmailDto } from './dto/email-verification.dto';
+import { EmailVerificationService } from './email-verification.service';
+import {
+  RecoveryCodesDto,
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  TwoFactorEnrollmentDto,
+  VerifyTwoFactorDto,
+} from './dto/two-factor.dto';
+import { TwoFactorService } from './two-factor.service';
+import { AllowWithoutTwoFactor } from './decorators/allow-without-two-factor.decorator';
 
 @ApiTags('Authentication')
 @Controller('auth')
 // @UseGuards(CustomThrottlerGuard)
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   @Post('login')
   @HttpCode(HttpStatus.OK)
   @Throttle({ default: { limit: 5, ttl: 900000 } }) // 5 attempts per 15 minutes
   @ApiOperation({ summary: 'User login' })
   @ApiBody({ type: LoginDto })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  @ApiResponse({
+    status: 200,
+    description: 'Token pair, or a challenge for /auth/2fa/verify when two-factor auth is on',
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    return this.authService.login(loginDto, { userAgent, ipAddress });
+  }
+
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 900000 } }) // 5 attempts per 15 minutes
+  @ApiOperation({ summary: 'Complete a login with an authenticator or recovery code' })
+  @ApiBody({ type: VerifyTwoFactorDto })
+  @ApiResponse({ status: 401, description: 'Invalid code or expired challenge' })
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.completeTwoFactorLogin(
+      verifyTwoFactorDto.challengeToken,
+      verifyTwoFactorDto.code,
+      { userAgent, ipAddress },
+    );
   }
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  // Tokens stay out of Redis; a replayed registration returns the user, who then signs in
+  @IdempotencyOmit('accessToken', 'refreshToken')
   @Throttle({ default: { limit: 3, ttl: 3600000 } }) // 3 attempts per hour
   @ApiOperation({ summary: 'User registration' })
   @ApiBody({ type: RegisterDto })
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.register(registerDto, { userAgent, ipAddress });
   }
 
   @Post('refresh')
@@ -53,18 +115,115 @@ export class AuthController {
   @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 attempts per minute
   @ApiOperation({ summary: 'Refresh access token' })
   @ApiBody({ type: RefreshTokenDto })
-  async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto> {
-    return this.authService.refreshTokens(refreshTokenDto.refreshToken);
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.refreshTokens(refreshTokenDto.refreshToken, { userAgent, ipAddress });
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 3600000 } }) // 3 requests per hour
+  @ApiOperation({ summary: 'Email a password reset link' })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({ status: 200, description: 'Same answer whether or not the account exists' })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto): Promise<{ message: string }> {
+    await this.passwordResetService.requestReset(forgotPasswordDto.email);
+    return { message: 'If an account exists for this email, a password reset link has been sent' };
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 3600000 } }) // 10 attempts per hour
+  @ApiOperation({ summary: 'Choose a new password with a reset token; ends all sessions' })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({ status: 400, description: 'Invalid, used or expired reset token' })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto): Promise<{ message: string }> {
+    await this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+    return { message: 'Password has been reset' };
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 3600000 } }) // 10 attempts per hour
+  @ApiOperation({ summary: 'Verify your email address with the link from the verification email' })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({ status: 400, description: 'Invalid or expired verification link' })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<{ message: string }> {
+    await this.emailVerificationService.verify(verifyEmailDto.token);
+    return { message: 'Email address verified' };
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 3, ttl: 3600000 } }) // 3 requests per hour
+  @ApiOperation({ summary: 'Send the email verification link again' })
+  @ApiResponse({ status: 409, description: 'Email address is already verified' })
+  async resendVerification(@CurrentUser() user: AuthenticatedUser): Promise<{ message: string }> {
+    await this.emailVerificationService.resend(user.id);
+    return { message: 'Verification email sent' };
+  }
+
+  @Post('2fa/enroll')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @AllowWithoutTwoFactor()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start two-factor enrolment; add the secret to an authenticator app' })
+  @ApiResponse({ status: 200, type: TwoFactorEnrollmentDto })
+  @ApiResponse({ status: 409, description: 'Two-factor authentication is already enabled' })
+  async enrollTwoFactor(@CurrentUser() user: AuthenticatedUser): Promise<TwoFactorEnrollmentDto> {
+    return this.twoFactorService.enroll(user.id);
+  }
+
+  @Post('2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @AllowWithoutTwoFactor()
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 10, ttl: 900000 } }) // 10 attempts per 15 minutes
+  @ApiOperation({ summary: 'Turn two-factor authentication on with a first code' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, type: RecoveryCodesDto })
+  async confirmTwoFactor(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodesDto> {
+    return this.twoFactorService.confirm(user.id, twoFactorCodeDto.code);
+  }
+
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 5, ttl: 900000 } }) // 5 attempts per 15 minutes
+  @ApiOperation({ summary: 'Turn two-factor authentication off with a current code' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 403, description: 'Admins must keep it on when it is required' })
+  async disableTwoFactor(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<{ message: string }> {
+    await this.twoFactorService.disable(user, twoFactorCodeDto.code);
+    return { message: 'Two-factor authentication disabled' };
   }
 
   @Post('logout')
   @HttpCode(HttpStatus.OK)
   @UseGuards(JwtAuthGuard)
+  @AllowWithoutTwoFactor()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'User logout' })
   async logout(@Request() req: any): Promise<{ message: string }> {
     const token = req.headers.authorization?.replace('Bearer ', '');
-    await this.authService.logout(token, req.user.sub);
+    await this.authService.logout(token, req.user.id, req.user.sessionId);
     return { message: 'Logout successful' };
   }
 
@@ -79,7 +238,43 @@ export class AuthController {
     description: 'All refresh tokens revoked' 
   })
   async revokeAllRefreshTokens(@Request() req: any): Promise<{ message: string }> {
-    await this.authService.revokeAllRefreshTokens(req.user.sub);
+    await this.authService.revokeAllRefreshTokens(req.user.id);
     return { message: 'All refresh tokens have been revoked' };
   }
-}
\ No newline at end of file
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the devices you are logged in on' })
+  @ApiResponse({ status: 200, type: [SessionResponseDto] })
+  async listSessions(@CurrentUser() user: AuthenticatedUser): Promise<SessionResponseDto[]> {
+    return this.authService.listSessions(user.id, user.sessionId);
+  }
+
+  @Delete('sessions')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Log out every other device, keeping the current session' })
+  @ApiResponse({ status: 200, type: RevokeSessionsResponseDto })
+  async revokeOtherSessions(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<RevokeSessionsResponseDto> {
+    const revoked = await this.authService.revokeOtherSessions(user.id, user.sessionId);
+    return { revoked };
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Log out one device' })
+  @ApiResponse({ status: 404, description: 'No active session with this id' })
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<{ message: string }> {
+    await this.authService.revokeSession(user.id, id);
+    return { message: 'Session revoked' };
+  }
+}
@@ -4,12 +4,16 @@ import { UsersService } from '../users/users.service';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
-import { DataSource, QueryRunner } from 'typeorm';
-import { UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { DataSource, In, QueryRunner } from 'typeorm';
+import { UnauthorizedException, BadRequestException, NotFoundException } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
 import { User } from '../users/entities/user.entity';
 import { RefreshToken } from './entities/refresh-token.entity';
 import { RegisterDto } from './dto/register.dto';
+import { hashToken } from '../../common/utils/token-hash.util';
+import { CacheService } from '../../common/services/cache.service';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
 
 
 const mockUser = {
@@ -29,11 +33,19 @@ describe('AuthService', () => {
   let cacheManager: any;
   let queryRunner: jest.Mocked<QueryRunner>;
   let dataSource: jest.Mocked<DataSource>;
+  let cacheService: { set: jest.Mock; has: jest.Mock };
+  let emailVerificationService: { sendVerificationLinkInBackground: jest.Mock };
+  let twoFactorService: {
+    issueChallenge: jest.Mock;
+    verifyChallenge: jest.Mock;
+    verifyCode: jest.Mock;
+  };
 
   beforeEach(async () => {
     usersService = {
       findByEmail: jest.fn(),
       create: jest.fn(),
+      bumpTokenVersion: jest.fn(),
     } as any;
 
     jwtService = {
@@ -77,9 +89,24 @@ describe('AuthService', () => {
       manager: {
         update: jest.fn(),
         findOne: jest.fn(),
+        find: jest.fn(),
+        exists: jest.fn().mockResolvedValue(true),
       },
     } as any;
 
+    cacheService = {
+      set: jest.fn().mockResolvedValue(undefined),
+      has: jest.fn().mockResolvedValue(false),
+    };
+
+    emailVerificationService = { sendVerificationLinkInBackground: jest.fn() };
+
+    twoFactorService = {
+      issueChallenge: jest.fn(),
+      verifyChallenge: jest.fn(),
+      verifyCode: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
@@ -88,6 +115,9 @@ describe('AuthService', () => {
         { provide: ConfigService, useValue: configService },
         { provide: DataSource, useValue: dataSource },
         { provide: CACHE_MANAGER, useValue: cacheManager },
+        { provide: CacheService, useValue: cacheService },
+        { provide: EmailVerificationService, useValue: emailVerificationService },
+        { provide: TwoFactorService, useValue: twoFactorService },
       ],
     }).compile();
 
@@ -131,6 +161,94 @@ describe('AuthService', () => {
     );
   });
 
+  describe('two-factor login', () => {
+    const twoFactorUser = { ...mockUser, twoFactorEnabledAt: new Date() };
+    const challenge = {
+      sub: mockUser.id,
+      email: mockUser.email,
+      tokenVersion: mockUser.tokenVersion,
+      deviceName: 'Work laptop',
+      purpose: '2fa-challenge',
+    };
+
+    it('should answer a correct password with a challenge instead of tokens', async () => {
+      usersService.findByEmail.mockResolvedValue(twoFactorUser as unknown as User);
+      jest
+        .spyOn(service as unknown as { verifyPassword: () => Promise<boolean> }, 'verifyPassword')
+        .mockResolvedValue(true);
+      const challengeResponse = {
+        twoFactorRequired: true,
+        challengeToken: 'challenge',
+        expiresIn: 300,
+      };
+      twoFactorService.issueChallenge.mockResolvedValue(challengeResponse);
+
+      const result = await service.login({
+        email: mockUser.email,
+        password: 'validPass',
+        deviceName: 'Work laptop',
+      });
+
+      expect(result).toEqual(challengeResponse);
+      expect(twoFactorService.issueChallenge).toHaveBeenCalledWith(twoFactorUser, 'Work laptop');
+      expect(jwtService.signAsync).not.toHaveBeenCalled();
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+      expect(cacheManager.del).not.toHaveBeenCalled();
+    });
+
+    it('should start a session once the code checks out', async () => {
+      twoFactorService.verifyChallenge.mockResolvedValue(challenge);
+      usersService.findByEmail.mockResolvedValue(twoFactorUser as unknown as User);
+      twoFactorService.verifyCode.mockResolvedValue(true);
+      jwtService.signAsync.mockResolvedValueOnce('access-token');
+      jwtService.signAsync.mockResolvedValueOnce('refresh-token');
+
+      const result = await service.completeTwoFactorLogin('challenge', '123456', {
+        userAgent: 'test-agent',
+      });
+
+      expect(result.accessToken).toBe('access-token');
+      expect(twoFactorService.verifyCode).toHaveBeenCalledWith(mockUser.id, '123456');
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          token: hashToken('refresh-token'),
+          deviceName: 'Work laptop',
+          userAgent: 'test-agent',
+        }),
+      );
+      expect(cacheManager.del).toHaveBeenCalledWith(`attempts:${mockUser.email}`);
+    });
+
+    it('should count a wrong code as a failed login attempt', async () => {
+      twoFactorService.verifyChallenge.mockResolvedValue(challenge);
+      usersService.findByEmail.mockResolvedValue(twoFactorUser as unknown as User);
+      twoFactorService.verifyCode.mockResolvedValue(false);
+
+      await expect(service.completeTwoFactorLogin('challenge', '000000')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        `attempts:${mockUser.email}`,
+        1,
+        expect.any(Number),
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a challenge issued before the sessions were ended', async () => {
+      twoFactorService.verifyChallenge.mockResolvedValue(challenge);
+      usersService.findByEmail.mockResolvedValue({
+        ...twoFactorUser,
+        tokenVersion: mockUser.tokenVersion + 1,
+      } as unknown as User);
+
+      await expect(service.completeTwoFactorLogin('challenge', '123456')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(twoFactorService.verifyCode).not.toHaveBeenCalled();
+    });
+  });
+
   it('should register new user', async () => {
     usersService.findByEmail.mockResolvedValue(null);
     usersService.create.mockResolvedValue(mockUser as unknown as User);
@@ -146,6 +264,9 @@ describe('AuthService', () => {
     expect(result.accessToken).toBe('access-token');
     expect(result.refreshToken).toBe('refresh-token');
     expect(result.user.email).toBe(mockUser.email);
+    expect(emailVerificationService.sendVerificationLinkInBackground).toHaveBeenCalledWith(
+      mockUser,
+    );
   });
 
   it('should throw BadRequestException if user already exists', async () => {
@@ -161,13 +282,16 @@ describe('AuthService', () => {
 
   it('should refresh tokens successfully', async () => {
     const oldToken = {
-      token: 'old-refresh',
+      token: hashToken('old-refresh'),
+      familyId: 'family-id',
+      userId: mockUser.id,
       isActive: true,
       expiresAt: new Date(Date.now() + 100000),
-      user: mockUser,
     };
 
-    (queryRunner.manager.findOne as jest.Mock).mockResolvedValue(oldToken);
+    (queryRunner.manager.findOne as jest.Mock)
+      .mockResolvedValueOnce(oldToken)
+      .mockResolvedValueOnce(mockUser);
     jwtService.signAsync.mockResolvedValueOnce('new-access');
     jwtService.signAsync.mockResolvedValueOnce('new-refresh');
     cacheManager.get.mockResolvedValue(null);
@@ -175,6 +299,47 @@ describe('AuthService', () => {
     const result = await service.refreshTokens('old-refresh');
     expect(result.accessToken).toBe('new-access');
     expect(result.refreshToken).toBe('new-refresh');
+    expect(queryRunner.manager.save).toHaveBeenCalledWith(
+      expect.objectContaining({ isActive: false, rotatedAt: expect.any(Date) }),
+    );
+    expect(queryRunner.manager.findOne).toHaveBeenCalledWith(
+      RefreshToken,
+      expect.objectContaining({ where: { token: hashToken('old-refresh') } }),
+    );
+    expect(queryRunner.manager.save).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        token: hashToken('new-refresh'),
+        familyId: 'family-id',
+        isActive: true,
+      }),
+    );
+  });
+
+  it('should carry the device of the session over to the rotated token', async () => {
+    (queryRunner.manager.findOne as jest.Mock)
+      .mockResolvedValueOnce({
+        familyId: 'family-id',
+        userId: mockUser.id,
+        isActive: true,
+        expiresAt: new Date(Date.now() + 100000),
+        userAgent: 'old-agent',
+        ipAddress: '10.0.0.1',
+        deviceName: 'Work laptop',
+      })
+      .mockResolvedValueOnce(mockUser);
+    jwtService.signAsync.mockResolvedValue('token');
+    cacheManager.get.mockResolvedValue(null);
+
+    await service.refreshTokens('old-refresh', { ipAddress: '10.0.0.2' });
+
+    expect(queryRunner.manager.save).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        userAgent: 'old-agent',
+        ipAddress: '10.0.0.2',
+        deviceName: 'Work laptop',
+        lastUsedAt: expect.any(Date),
+      }),
+    );
   });
 
   it('should throw if refresh token is expired or invalid', async () => {
@@ -182,12 +347,46 @@ describe('AuthService', () => {
     await expect(service.refreshTokens('invalid')).rejects.toThrow(UnauthorizedException);
   });
 
+  it('should revoke the whole family when a rotated-out token is reused', async () => {
+    (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+      id: 'token-id',
+      familyId: 'family-id',
+      userId: mockUser.id,
+      isActive: false,
+      rotatedAt: new Date(Date.now() - 1000),
+      expiresAt: new Date(Date.now() + 100000),
+    });
+
+    await expect(service.refreshTokens('stolen')).rejects.toThrow(UnauthorizedException);
+    expect(dataSource.manager.update).toHaveBeenCalledWith(
+      RefreshToken,
+      { familyId: 'family-id', isActive: true },
+      { isActive: false },
+    );
+    expect(jwtService.signAsync).not.toHaveBeenCalled();
+  });
+
+  it('should reject a token ended by logout without revoking its family', async () => {
+    (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+      id: 'token-id',
+      familyId: 'family-id',
+      userId: mockUser.id,
+      isActive: false,
+      rotatedAt: null,
+      expiresAt: new Date(Date.now() + 100000),
+    });
+
+    await expect(service.refreshTokens('logged-out')).rejects.toThrow(UnauthorizedException);
+    expect(dataSource.manager.update).not.toHaveBeenCalled();
+    expect(cacheService.set).not.toHaveBeenCalled();
+  });
+
   it('should throw if refresh token is blacklisted', async () => {
     (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
-      ...mockUser,
+      familyId: 'family-id',
+      userId: mockUser.id,
       expiresAt: new Date(Date.now() + 1000),
       isActive: true,
-      user: mockUser,
     });
     cacheManager.get.mockResolvedValue(true);
 
@@ -203,6 +402,101 @@ describe('AuthService', () => {
     expect(dataSource.manager.update).toHaveBeenCalled();
   });
 
+  it('should only end the current session on logout', async () => {
+    jwtService.decode.mockReturnValue(null);
+
+    await service.logout('access-token', mockUser.id, 'session-id');
+
+    expect(dataSource.manager.update).toHaveBeenCalledWith(
+      RefreshToken,
+      { userId: mockUser.id, familyId: 'session-id', isActive: true },
+      { isActive: false },
+    );
+    expect(cacheService.set).toHaveBeenCalledWith(
+      'revoked-session:session-id',
+      true,
+      expect.any(Number),
+    );
+  });
+
+  it('should list active sessions and flag the current one', async () => {
+    (dataSource.manager.find as jest.Mock).mockResolvedValue([
+      {
+        familyId: 'session-id',
+        userAgent: 'curl/8.5.0',
+        ipAddress: '10.0.0.1',
+        deviceName: null,
+        lastUsedAt: null,
+        createdAt: new Date('2024-03-18T09:30:00Z'),
+        expiresAt: new Date('2024-03-25T09:30:00Z'),
+      },
+    ]);
+
+    const sessions = await service.listSessions(mockUser.id, 'session-id');
+
+    expect(sessions).toEqual([
+      expect.objectContaining({
+        id: 'session-id',
+        deviceName: 'curl',
+        lastUsedAt: new Date('2024-03-18T09:30:00Z'),
+        current: true,
+      }),
+    ]);
+  });
+
+  it('should throw if the session to revoke is not active', async () => {
+    (dataSource.manager.update as jest.Mock).mockResolvedValue({ affected: 0 });
+
+    await expect(service.revokeSession(mockUser.id, 'session-id')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(cacheService.set).not.toHaveBeenCalled();
+  });
+
+  it('should revoke every other session', async () => {
+    (dataSource.manager.find as jest.Mock).mockResolvedValue([
+      { id: 'token-1', familyId: 'laptop' },
+      { id: 'token-2', familyId: 'tablet' },
+    ]);
+
+    await expect(service.revokeOtherSessions(mockUser.id, 'phone')).resolves.toBe(2);
+    expect(dataSource.manager.update).toHaveBeenCalledWith(
+      RefreshToken,
+      { id: In(['token-1', 'token-2']) },
+      { isActive: false },
+    );
+    expect(cacheService.set).toHaveBeenCalledWith(
+      'revoked-session:laptop',
+      true,
+      expect.any(Number),
+    );
+    expect(cacheService.set).toHaveBeenCalledWith(
+      'revoked-session:tablet',
+      true,
+      expect.any(Number),
+    );
+  });
+
+  it('should treat a session as revoked once the cache has flagged it', async () => {
+    cacheService.has.mockResolvedValue(true);
+
+    await expect(service.isSessionRevoked('session-id')).resolves.toBe(true);
+    expect(dataSource.manager.exists).not.toHaveBeenCalled();
+  });
+
+  it('should check the token family when the cache has no record of the session', async () => {
+    (dataSource.manager.exists as jest.Mock).mockResolvedValue(false);
+
+    await expect(service.isSessionRevoked('session-id')).resolves.toBe(true);
+    expect(dataSource.manager.exists).toHaveBeenCalledWith(RefreshToken, {
+      where: { familyId: 'session-id', isActive: true, expiresAt: expect.anything() },
+    });
+  });
+
+  it('should keep a session whose family still has an active token', async () => {
+    await expect(service.isSessionRevoked('session-id')).resolves.toBe(false);
+  });
+
   it('should revoke all refresh tokens for user', async () => {
     await service.revokeAllRefreshTokens(mockUser.id);
     expect(dataSource.manager.update).toHaveBeenCalledWith(
@@ -210,5 +504,6 @@ describe('AuthService', () => {
       { userId: mockUser.id },
       { isActive: false },
     );
+    expect(usersService.bumpTokenVersion).toHaveBeenCalledWith(mockUser.id);
   });
 });
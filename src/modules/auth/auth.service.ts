@@ -2,13 +2,14 @@ import {
   Injectable,
   UnauthorizedException,
   BadRequestException,
+  NotFoundException,
   Logger,
   Inject,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import type { Cache } from 'cache-manager';
-import { DataSource } from 'typeorm';
+import { DataSource, In, MoreThan, Not, QueryRunner } from 'typeorm';
 import { UsersService } from '../users/users.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
@@ -19,12 +20,21 @@ import { JwtPayload } from '../../common/interfaces/jwt.payload.interface';
 import { RefreshToken } from './entities/refresh-token.entity';
 import { v4 as uuidv4 } from 'uuid';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { hashToken } from '../../common/utils/token-hash.util';
+import { CacheService } from '../../common/services/cache.service';
+import { SessionContext } from '../../common/interfaces/session-context.interface';
+import { SessionResponseDto } from './dto/session.dto';
+import { describeUserAgent } from './utils/user-agent.util';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorChallengeDto } from './dto/two-factor.dto';
 
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
   private readonly MAX_LOGIN_ATTEMPTS = 5;
   private readonly LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+  private readonly REVOKED_SESSION_TTL = 24 * 60 * 60; // seconds, outlives any access token
 
   constructor(
     private readonly usersService: UsersService,
@@ -32,10 +42,17 @@ export class AuthService {
     private readonly configService: ConfigService,
     private readonly dataSource: DataSource,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private readonly cacheService: CacheService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
-    const { email, password } = loginDto;
+  // With two-factor authentication on, the password only earns a challenge for the second step
+  async login(
+    loginDto: LoginDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    const { email, password, deviceName } = loginDto;
 
     // Check if user is locked out
     await this.checkUserLockout(email);
@@ -64,30 +81,27 @@ export class AuthService {
         throw new UnauthorizedException('Invalid credentials');
       }
 
+      if (user.deletedAt) {
+        throw new UnauthorizedException('Account is deactivated');
+      }
+
+      // Failed attempts keep counting until the second factor is in too
+      if (user.twoFactorEnabledAt) {
+        await queryRunner.commitTransaction();
+        return this.twoFactorService.issueChallenge(user, deviceName);
+      }
+
       // Clear failed attempts on successful login
       await this.clearFailedAttempts(email);
 
-      // Generate tokens
-      const tokens = await this.generateTokenPair(user);
-
-      // Store refresh token
-      await this.storeRefreshToken(user.id, tokens.refreshToken, queryRunner);
+      const response = await this.startSession(user, queryRunner, { ...context, deviceName });
 
       // Log successful login
       this.logger.log(`User ${user.id} logged in successfully`);
 
       await queryRunner.commitTransaction();
 
-      return {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-      };
+      return response;
     } catch (error) {
       await queryRunner.rollbackTransaction();
       throw error;
@@ -96,7 +110,7 @@ export class AuthService {
     }
   }
 
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(registerDto: RegisterDto, context: SessionContext = {}): Promise<AuthResponseDto> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
@@ -111,27 +125,17 @@ export class AuthService {
       // Create user
       const user = await this.usersService.create(registerDto);
 
-      // Generate tokens
-      const tokens = await this.generateTokenPair(user);
-
-      // Store refresh token
-      await this.storeRefreshToken(user.id, tokens.refreshToken, queryRunner);
+      const response = await this.startSession(user, queryRunner, context);
 
       // Log registration
       this.logger.log(`New user registered: ${user.id}`);
 
       await queryRunner.commitTransaction();
 
-      return {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-      };
+      // The account works right away, within what UNVERIFIED_EMAIL_POLICY allows
+      this.emailVerificationService.sendVerificationLinkInBackground(user);
+
+      return response;
     } catch (error) {
       await queryRunner.rollbackTransaction();
       throw error;
@@ -140,19 +144,87 @@ export class AuthService {
     }
   }
 
-  async refreshTokens(refreshToken: string): Promise<AuthResponseDto> {
+  // Second login step: wrong codes count towards the same lockout as wrong passwords
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    const challenge = await this.twoFactorService.verifyChallenge(challengeToken);
+
+    await this.checkUserLockout(challenge.email);
+
+    // A password change or logout everywhere since the first step voids the challenge
+    const user = await this.usersService.findByEmail(challenge.email);
+    if (
+      !user ||
+      user.id !== challenge.sub ||
+      user.deletedAt ||
+      user.tokenVersion !== challenge.tokenVersion ||
+      !user.twoFactorEnabledAt
+    ) {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    if (!(await this.twoFactorService.verifyCode(user.id, code))) {
+      await this.recordFailedAttempt(challenge.email);
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.clearFailedAttempts(challenge.email);
+
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      // Verify refresh token
+      const response = await this.startSession(user, queryRunner, {
+        ...context,
+        deviceName: challenge.deviceName,
+      });
+
+      this.logger.log(`User ${user.id} logged in successfully with two-factor authentication`);
+
+      await queryRunner.commitTransaction();
+
+      return response;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async refreshTokens(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      // Verify refresh token; the row stays locked so concurrent rotations serialize
       const storedToken = await queryRunner.manager.findOne(RefreshToken, {
-        where: { token: refreshToken, isActive: true },
-        relations: ['user'],
+        where: { token: hashToken(refreshToken) },
+        lock: { mode: 'pessimistic_write' },
       });
 
-      if (!storedToken || storedToken.expiresAt < new Date()) {
+      if (!storedToken) {
+        throw new UnauthorizedException('Invalid refresh token');
+      }
+
+      if (!storedToken.isActive) {
+        // A rotated-out token coming back means it leaked: revoke the whole family.
+        // Tokens ended by logout or revocation are simply no longer valid.
+        if (storedToken.rotatedAt) {
+          await this.revokeTokenFamily(storedToken);
+        }
+        throw new UnauthorizedException('Invalid refresh token');
+      }
+
+      if (storedToken.expiresAt < new Date()) {
         throw new UnauthorizedException('Invalid refresh token');
       }
 
@@ -162,15 +234,34 @@ export class AuthService {
         throw new UnauthorizedException('Token has been revoked');
       }
 
+      // Deactivated users are hidden by the soft delete
+      const user = await queryRunner.manager.findOne(User, {
+        where: { id: storedToken.userId },
+      });
+      if (!user) {
+        throw new UnauthorizedException('Invalid refresh token');
+      }
+
       // Invalidate old refresh token
       storedToken.isActive = false;
+      storedToken.rotatedAt = new Date();
       await queryRunner.manager.save(storedToken);
 
       // Generate new token pair
-      const tokens = await this.generateTokenPair(storedToken.user);
-
-      // Store new refresh token
-      await this.storeRefreshToken(storedToken.user.id, tokens.refreshToken, queryRunner);
+      const tokens = await this.generateTokenPair(user, storedToken.familyId);
+
+      // The new token continues the family (session) of the one it replaces
+      await this.storeRefreshToken(
+        user.id,
+        tokens.refreshToken,
+        queryRunner,
+        storedToken.familyId,
+        {
+          userAgent: context.userAgent ?? storedToken.userAgent ?? undefined,
+          ipAddress: context.ipAddress ?? storedToken.ipAddress ?? undefined,
+          deviceName: storedToken.deviceName ?? undefined,
+        },
+      );
 
       await queryRunner.commitTransaction();
 
@@ -178,10 +269,10 @@ export class AuthService {
         accessToken: tokens.accessToken,
         refreshToken: tokens.refreshToken,
         user: {
-          id: storedToken.user.id,
-          email: storedToken.user.email,
-          name: storedToken.user.name,
-          role: storedToken.user.role,
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
         },
       };
     } catch (error) {
@@ -192,7 +283,8 @@ export class AuthService {
     }
   }
 
-  async logout(accessToken: string, userId: string): Promise<void> {
+  // Ends the session the access token belongs to; tokens without one end every session
+  async logout(accessToken: string, userId: string, sessionId?: string): Promise<void> {
     // Blacklist the access token
     const decoded = this.jwtService.decode(accessToken) as any;
     if (decoded?.exp) {
@@ -205,15 +297,93 @@ export class AuthService {
     // Invalidate current refresh token
     await this.dataSource.manager.update(
       RefreshToken,
-      { userId, isActive: true },
+      sessionId ? { userId, familyId: sessionId, isActive: true } : { userId, isActive: true },
       { isActive: false },
     );
+    if (sessionId) {
+      await this.markSessionsRevoked([sessionId]);
+    }
 
     this.logger.log(`User ${userId} logged out`);
   }
 
+  // A session is a refresh token family; its active token carries the latest device metadata
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionResponseDto[]> {
+    const tokens = await this.dataSource.manager.find(RefreshToken, {
+      where: { userId, isActive: true, expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+
+    return tokens.map(token => ({
+      id: token.familyId,
+      deviceName: token.deviceName ?? describeUserAgent(token.userAgent),
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      lastUsedAt: token.lastUsedAt ?? token.createdAt,
+      expiresAt: token.expiresAt,
+      current: token.familyId === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await this.dataSource.manager.update(
+      RefreshToken,
+      { userId, familyId: sessionId, isActive: true },
+      { isActive: false },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.markSessionsRevoked([sessionId]);
+    this.logger.log(`Session ${sessionId} of user ${userId} revoked`);
+  }
+
+  // Logs out every other device, keeping the session that asks for it
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const others = await this.dataSource.manager.find(RefreshToken, {
+      where: {
+        userId,
+        isActive: true,
+        ...(currentSessionId && { familyId: Not(currentSessionId) }),
+      },
+      select: ['id', 'familyId'],
+    });
+    if (others.length === 0) {
+      return 0;
+    }
+
+    await this.dataSource.manager.update(
+      RefreshToken,
+      { id: In(others.map(token => token.id)) },
+      { isActive: false },
+    );
+
+    const sessionIds = [...new Set(others.map(token => token.familyId))];
+    await this.markSessionsRevoked(sessionIds);
+    this.logger.log(`Revoked ${sessionIds.length} other session(s) of user ${userId}`);
+
+    return sessionIds.length;
+  }
+
+  // Access tokens of a revoked session keep failing until they would have expired anyway.
+  // The cache is only a fast path: an evicted key or a Redis outage falls back to the family,
+  // which is live while it still holds an active, unexpired refresh token.
+  async isSessionRevoked(sessionId: string): Promise<boolean> {
+    if (await this.cacheService.has(this.revokedSessionKey(sessionId))) {
+      return true;
+    }
+
+    const live = await this.dataSource.manager.exists(RefreshToken, {
+      where: { familyId: sessionId, isActive: true, expiresAt: MoreThan(new Date()) },
+    });
+    return !live;
+  }
+
+  // Logs the user out everywhere: outstanding access tokens die with the version bump
   async revokeAllRefreshTokens(userId: string): Promise<void> {
     await this.dataSource.manager.update(RefreshToken, { userId }, { isActive: false });
+    await this.usersService.bumpTokenVersion(userId);
 
     this.logger.log(`All refresh tokens revoked for user ${userId}`);
   }
@@ -240,12 +410,38 @@ export class AuthService {
     return requiredRoles.includes(user.role);
   }
 
-  private async generateTokenPair(user: User) {
+  // Every login starts a session of its own: a new refresh token family
+  private async startSession(
+    user: User,
+    queryRunner: QueryRunner,
+    context: SessionContext,
+  ): Promise<AuthResponseDto> {
+    const sessionId = uuidv4();
+    const tokens = await this.generateTokenPair(user, sessionId);
+
+    // Store refresh token
+    await this.storeRefreshToken(user.id, tokens.refreshToken, queryRunner, sessionId, context);
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+      },
+    };
+  }
+
+  private async generateTokenPair(user: User, sessionId: string) {
     const jwtPayload: JwtPayload = {
       sub: user.id,
       email: user.email,
       role: user.role,
-      tokenVersion: user.tokenVersion || 0,
+      type: 'access',
+      tokenVersion: user.tokenVersion,
+      sid: sessionId,
     };
 
     const [accessToken, refreshToken] = await Promise.all([
@@ -254,7 +450,8 @@ export class AuthService {
         expiresIn: this.configService.get('JWT_ACCESS_EXPIRATION', '15m'),
       }),
       this.jwtService.signAsync(
-        { sub: user.id, type: 'refresh' },
+        // jti keeps tokens issued within the same second apart
+        { sub: user.id, type: 'refresh', sid: sessionId, jti: uuidv4() },
         {
           secret: this.configService.get('JWT_REFRESH_SECRET'),
           expiresIn: this.configService.get('JWT_REFRESH_EXPIRATION', '7d'),
@@ -265,17 +462,54 @@ export class AuthService {
     return { accessToken, refreshToken };
   }
 
-  private async storeRefreshToken(userId: string, token: string, queryRunner: any) {
+  private async storeRefreshToken(
+    userId: string,
+    token: string,
+    queryRunner: QueryRunner,
+    familyId: string,
+    context: SessionContext,
+  ) {
     const refreshToken = new RefreshToken();
     refreshToken.id = uuidv4();
-    refreshToken.token = token;
+    refreshToken.token = hashToken(token);
+    refreshToken.familyId = familyId;
     refreshToken.userId = userId;
+    refreshToken.userAgent = context.userAgent ?? null;
+    refreshToken.ipAddress = context.ipAddress ?? null;
+    refreshToken.deviceName = context.deviceName ?? describeUserAgent(context.userAgent);
+    refreshToken.lastUsedAt = new Date();
     refreshToken.expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
     refreshToken.isActive = true;
 
     await queryRunner.manager.save(refreshToken);
   }
 
+  // Runs outside the rotation transaction so the revocation survives its rollback
+  private async revokeTokenFamily(reused: RefreshToken): Promise<void> {
+    await this.dataSource.manager.update(
+      RefreshToken,
+      { familyId: reused.familyId, isActive: true },
+      { isActive: false },
+    );
+    await this.markSessionsRevoked([reused.familyId]);
+
+    this.logger.warn(
+      `Security: reuse of revoked refresh token ${reused.id} detected for user ${reused.userId}; token family ${reused.familyId} revoked`,
+    );
+  }
+
+  private async markSessionsRevoked(sessionIds: string[]): Promise<void> {
+    await Promise.all(
+      sessionIds.map(sessionId =>
+        this.cacheService.set(this.revokedSessionKey(sessionId), true, this.REVOKED_SESSION_TTL),
+      ),
+    );
+  }
+
+  private revokedSessionKey(sessionId: string): string {
+    return `revoked-session:${sessionId}`;
+  }
+
   private async verifyPassword(plainPassword: string, hashedPassword: string): Promise<boolean> {
     return bcrypt.compare(plainPassword, hashedPassword);
   }
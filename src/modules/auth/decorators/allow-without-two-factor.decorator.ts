@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_WITHOUT_TWO_FACTOR_KEY = 'allowWithoutTwoFactor';
+
+// Marks handlers admins can still reach while REQUIRE_ADMIN_TWO_FACTOR keeps them out otherwise
+export const AllowWithoutTwoFactor = () => SetMetadata(ALLOW_WITHOUT_TWO_FACTOR_KEY, true);
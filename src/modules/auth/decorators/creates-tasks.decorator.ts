@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const CREATES_TASKS_KEY = 'createsTasks';
+
+// Marks handlers that create tasks, which the no-task-creation policy keeps from unverified users
+export const CreatesTasks = () => SetMetadata(CREATES_TASKS_KEY, true);
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+// Opens a handler to API keys holding all of `scopes`; unmarked handlers refuse API keys
+export const RequireScopes = (...scopes: ApiKeyScope[]) => SetMetadata(REQUIRED_SCOPES_KEY, scopes);
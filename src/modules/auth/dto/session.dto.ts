@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({ example: 'uuid-string', description: 'Stays the same across token refreshes' })
+  id: string;
+
+  @ApiProperty({ example: 'Firefox on Windows' })
+  deviceName: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:124.0) ...',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ example: '2024-03-18T09:30:00.000Z' })
+  lastUsedAt: Date;
+
+  @ApiProperty({ example: '2024-03-25T09:30:00.000Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: true, description: 'Whether this is the session making the request' })
+  current: boolean;
+}
+
+export class RevokeSessionsResponseDto {
+  @ApiProperty({ example: 2 })
+  revoked: number;
+}
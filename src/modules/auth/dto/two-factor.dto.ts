@@ -0,0 +1,50 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app, or one of the recovery codes',
+  })
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(20, { message: 'Code must not exceed 20 characters' })
+  code: string;
+}
+
+export class VerifyTwoFactorDto extends TwoFactorCodeDto {
+  @ApiProperty({ description: 'Challenge token returned by the login step' })
+  @IsString({ message: 'Challenge token must be a string' })
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken: string;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ example: true })
+  twoFactorRequired: true;
+
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  challengeToken: string;
+
+  @ApiProperty({ example: 300, description: 'Seconds left to complete the login' })
+  expiresIn: number;
+}
+
+export class TwoFactorEnrollmentDto {
+  @ApiProperty({ example: 'JBSWY3DPEHPK3PXP', description: 'Base32 secret for manual entry' })
+  secret: string;
+
+  @ApiProperty({
+    example: 'otpauth://totp/TaskFlow%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=TaskFlow',
+    description: 'Key URI for authenticator apps; render it as a QR code to scan',
+  })
+  otpauthUri: string;
+}
+
+export class RecoveryCodesDto {
+  @ApiProperty({
+    example: ['k3m9q-x7p2d', 'a8v4n-c6t1z'],
+    description: 'Each code works once; they are shown only now',
+  })
+  recoveryCodes: string[];
+}
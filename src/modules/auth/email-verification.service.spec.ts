@@ -0,0 +1,83 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { EmailVerificationService } from './email-verification.service';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+
+const user = {
+  id: 'user-id',
+  email: 'user@example.com',
+  name: 'John Doe',
+  emailVerifiedAt: null,
+};
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+  let usersService: { findOne: jest.Mock; markEmailVerified: jest.Mock };
+  let mailService: { send: jest.Mock };
+  const jwtService = new JwtService({});
+
+  beforeEach(() => {
+    usersService = {
+      findOne: jest.fn().mockResolvedValue(user),
+      markEmailVerified: jest.fn().mockResolvedValue(true),
+    };
+    mailService = { send: jest.fn().mockResolvedValue(undefined) };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) => {
+        const values: Record<string, unknown> = {
+          EMAIL_VERIFICATION_SECRET: 'verification-secret',
+          'app.emailVerificationUrl': 'https://app.example.com/verify',
+        };
+        return values[key] ?? defaultValue;
+      }),
+    };
+
+    service = new EmailVerificationService(
+      usersService as unknown as UsersService,
+      mailService as unknown as MailService,
+      jwtService,
+      configService as unknown as ConfigService,
+    );
+  });
+
+  // Sends a link and returns the token it carries
+  const mailedToken = async () => {
+    await service.sendVerificationLink(user);
+    const [message] = mailService.send.mock.calls[0];
+    return new URL(message.text.match(/https:\S+/)[0]).searchParams.get('token')!;
+  };
+
+  it('should verify the address with the mailed link', async () => {
+    const token = await mailedToken();
+
+    await service.verify(token);
+
+    expect(usersService.markEmailVerified).toHaveBeenCalledWith(user.id);
+  });
+
+  it('should reject links for an address the user no longer has', async () => {
+    const token = await mailedToken();
+    usersService.findOne.mockResolvedValue({ ...user, email: 'new@example.com' });
+
+    await expect(service.verify(token)).rejects.toThrow(BadRequestException);
+    expect(usersService.markEmailVerified).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens not signed for email verification', async () => {
+    const forged = await jwtService.signAsync(
+      { sub: user.id, email: user.email, purpose: 'verify-email' },
+      { secret: 'some-other-secret' },
+    );
+
+    await expect(service.verify(forged)).rejects.toThrow(BadRequestException);
+  });
+
+  it('should not resend to verified addresses', async () => {
+    usersService.findOne.mockResolvedValue({ ...user, emailVerifiedAt: new Date() });
+
+    await expect(service.resend(user.id)).rejects.toThrow(ConflictException);
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+
+const EMAIL_VERIFICATION_PURPOSE = 'verify-email';
+
+interface EmailVerificationPayload {
+  sub: string;
+  email: string;
+  purpose: typeof EMAIL_VERIFICATION_PURPOSE;
+}
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly mailService: MailService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Mails a signed link for the user's current address. Nothing is stored:
+   * the link carries the address it was sent to, so it stops working once
+   * the address changes.
+   */
+  async sendVerificationLink(user: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+    const payload: EmailVerificationPayload = {
+      sub: user.id,
+      email: user.email,
+      purpose: EMAIL_VERIFICATION_PURPOSE,
+    };
+    const token = await this.jwtService.signAsync(payload, {
+      secret: this.configService.get('EMAIL_VERIFICATION_SECRET'),
+      expiresIn: this.configService.get('EMAIL_VERIFICATION_EXPIRATION', '24h'),
+    });
+
+    const url = new URL(this.configService.get<string>('app.emailVerificationUrl')!);
+    url.searchParams.set('token', token);
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'Please confirm that this is your email address by opening the link below:',
+        '',
+        url.toString(),
+        '',
+        'If you did not create an account, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  // Registration must not fail because the mail could not go out; the user can ask again
+  sendVerificationLinkInBackground(user: Pick<User, 'id' | 'email' | 'name'>): void {
+    this.sendVerificationLink(user).catch(error =>
+      this.logger.error(`Failed to send verification link to user ${user.id}:`, error),
+    );
+  }
+
+  async resend(userId: string): Promise<void> {
+    const user = await this.usersService.findOne(userId);
+
+    if (user.emailVerifiedAt) {
+      throw new ConflictException('Email address is already verified');
+    }
+
+    await this.sendVerificationLink(user);
+  }
+
+  // Following a link twice is fine; the first visit already did the work
+  async verify(token: string): Promise<void> {
+    const payload = await this.jwtService
+      .verifyAsync<EmailVerificationPayload>(token, {
+        secret: this.configService.get('EMAIL_VERIFICATION_SECRET'),
+      })
+      .catch(() => null);
+
+    if (!payload || payload.purpose !== EMAIL_VERIFICATION_PURPOSE) {
+      throw new BadRequestException('Invalid or expired verification link');
+    }
+
+    const user = await this.usersService.findOne(payload.sub).catch(() => null);
+    if (!user || user.email !== payload.email) {
+      throw new BadRequestException('Invalid or expired verification link');
+    }
+
+    await this.usersService.markEmailVerified(user.id);
+  }
+}
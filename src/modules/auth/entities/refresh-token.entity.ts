@@ -13,13 +13,19 @@ import { User } from '../../users/entities/user.entity';
 @Index(['userId', 'isActive'])
 @Index(['token'])
 @Index(['expiresAt'])
+@Index('IDX_refresh_tokens_family_id', ['familyId'])
 export class RefreshToken {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  // SHA-256 digest of the issued token; the token itself is never stored
   @Column({ type: 'text' })
   token: string;
 
+  // Tokens rotated from the same login share a family, revoked together on reuse
+  @Column({ name: 'family_id', type: 'uuid' })
+  familyId: string;
+
   @Column({ name: 'user_id' })
   userId: string;
 
@@ -29,6 +35,23 @@ export class RefreshToken {
   @Column({ name: 'is_active', default: true })
   isActive: boolean;
 
+  // Set when a refresh replaced the token; only such tokens coming back count as reuse
+  @Column({ name: 'rotated_at', type: 'timestamp', nullable: true })
+  rotatedAt: Date | null;
+
+  // Device metadata, shown in the session list; refreshed on every rotation
+  @Column({ name: 'user_agent', type: 'text', nullable: true })
+  userAgent: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ name: 'device_name', type: 'varchar', length: 100, nullable: true })
+  deviceName: string | null;
+
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
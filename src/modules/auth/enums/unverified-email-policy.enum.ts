@@ -0,0 +1,6 @@
+// What accounts that have not verified their email address yet may do
+export enum UnverifiedEmailPolicy {
+  FULL = 'full',
+  READ_ONLY = 'read-only',
+  NO_TASK_CREATION = 'no-task-creation',
+}
@@ -0,0 +1,69 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { EmailVerificationGuard } from './email-verification.guard';
+import { CreatesTasks } from '../decorators/creates-tasks.decorator';
+import { UnverifiedEmailPolicy } from '../enums/unverified-email-policy.enum';
+
+class TasksController {
+  list() {}
+
+  @CreatesTasks()
+  create() {}
+
+  update() {}
+}
+
+describe('EmailVerificationGuard', () => {
+  const unverified = { id: 'user-id', emailVerified: false };
+
+  const contextFor = (handler: keyof TasksController, request: Record<string, unknown>) =>
+    ({
+      getClass: () => TasksController,
+      getHandler: () => TasksController.prototype[handler],
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const guardWith = (policy: UnverifiedEmailPolicy) =>
+    new EmailVerificationGuard(new Reflector(), {
+      get: jest.fn().mockReturnValue(policy),
+    } as unknown as ConfigService);
+
+  it('should let verified users do anything', () => {
+    const guard = guardWith(UnverifiedEmailPolicy.READ_ONLY);
+
+    expect(
+      guard.canActivate(
+        contextFor('update', { method: 'PATCH', user: { ...unverified, emailVerified: true } }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should keep unverified users from creating tasks', () => {
+    const guard = guardWith(UnverifiedEmailPolicy.NO_TASK_CREATION);
+
+    expect(() =>
+      guard.canActivate(contextFor('create', { method: 'POST', user: unverified })),
+    ).toThrow(ForbiddenException);
+    expect(guard.canActivate(contextFor('update', { method: 'PATCH', user: unverified }))).toBe(
+      true,
+    );
+  });
+
+  it('should only let unverified users read under the read-only policy', () => {
+    const guard = guardWith(UnverifiedEmailPolicy.READ_ONLY);
+
+    expect(guard.canActivate(contextFor('list', { method: 'GET', user: unverified }))).toBe(true);
+    expect(() =>
+      guard.canActivate(contextFor('update', { method: 'PATCH', user: unverified })),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should not restrict anyone under the full policy', () => {
+    const guard = guardWith(UnverifiedEmailPolicy.FULL);
+
+    expect(guard.canActivate(contextFor('create', { method: 'POST', user: unverified }))).toBe(
+      true,
+    );
+  });
+});
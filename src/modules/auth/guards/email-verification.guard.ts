@@ -0,0 +1,54 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { CREATES_TASKS_KEY } from '../decorators/creates-tasks.decorator';
+import { UnverifiedEmailPolicy } from '../enums/unverified-email-policy.enum';
+import { AuthenticatedUser } from '../../../common/interfaces/authenticated-user.interface';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Applies `UNVERIFIED_EMAIL_POLICY` to users who have not verified their
+ * email address yet. Goes after JwtAuthGuard, which sets `request.user`.
+ */
+@Injectable()
+export class EmailVerificationGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user as AuthenticatedUser | undefined;
+
+    if (!user || user.emailVerified) {
+      return true;
+    }
+
+    const policy = this.configService.get<UnverifiedEmailPolicy>(
+      'app.unverifiedEmailPolicy',
+      UnverifiedEmailPolicy.NO_TASK_CREATION,
+    );
+
+    switch (policy) {
+      case UnverifiedEmailPolicy.READ_ONLY:
+        if (!SAFE_METHODS.includes(request.method)) {
+          throw new ForbiddenException('Verify your email address before making changes');
+        }
+        return true;
+      case UnverifiedEmailPolicy.NO_TASK_CREATION:
+        if (
+          this.reflector.getAllAndOverride<boolean>(CREATES_TASKS_KEY, [
+            context.getHandler(),
+            context.getClass(),
+          ])
+        ) {
+          throw new ForbiddenException('Verify your email address before creating tasks');
+        }
+        return true;
+      default:
+        return true;
+    }
+  }
+}
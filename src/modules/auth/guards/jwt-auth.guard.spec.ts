@@ -0,0 +1,98 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { AllowWithoutTwoFactor } from '../decorators/allow-without-two-factor.decorator';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+class AuthController {
+  list() {}
+
+  @AllowWithoutTwoFactor()
+  enroll() {}
+
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  write() {}
+}
+
+describe('JwtAuthGuard', () => {
+  const admin = { id: 'admin-id', role: UserRole.ADMIN, twoFactorEnabled: false };
+
+  const contextFor = (handler: keyof AuthController) =>
+    ({
+      getClass: () => AuthController,
+      getHandler: () => AuthController.prototype[handler],
+    }) as unknown as ExecutionContext;
+
+  const guardWith = (requireAdminTwoFactor: boolean) =>
+    new JwtAuthGuard(new Reflector(), {
+      get: jest.fn().mockReturnValue(requireAdminTwoFactor),
+    } as unknown as ConfigService);
+
+  it('should keep admins without two-factor authentication out when it is required', () => {
+    expect(() => guardWith(true).handleRequest(null, admin, null, contextFor('list'))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should still let them enrol', () => {
+    expect(guardWith(true).handleRequest(null, admin, null, contextFor('enroll'))).toBe(admin);
+  });
+
+  it('should let admins in once they have enrolled', () => {
+    const enrolled = { ...admin, twoFactorEnabled: true };
+
+    expect(guardWith(true).handleRequest(null, enrolled, null, contextFor('list'))).toBe(enrolled);
+  });
+
+  it('should not restrict admins while the requirement is off', () => {
+    expect(guardWith(false).handleRequest(null, admin, null, contextFor('list'))).toBe(admin);
+  });
+
+  it('should not restrict other roles', () => {
+    const user = { ...admin, role: UserRole.USER };
+
+    expect(guardWith(true).handleRequest(null, user, null, contextFor('list'))).toBe(user);
+  });
+
+  describe('API keys', () => {
+    const keyUser = {
+      id: 'user-id',
+      role: UserRole.USER,
+      apiKeyId: 'key-id',
+      scopes: [ApiKeyScope.TASKS_READ],
+    };
+
+    it('should refuse them on endpoints that do not declare scopes', () => {
+      expect(() => guardWith(false).handleRequest(null, keyUser, null, contextFor('list'))).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should refuse keys without the required scope', () => {
+      expect(() =>
+        guardWith(false).handleRequest(null, keyUser, null, contextFor('write')),
+      ).toThrow('API key is missing the required scope(s): tasks:write');
+    });
+
+    it('should let keys with the required scope through', () => {
+      const writer = { ...keyUser, scopes: [ApiKeyScope.TASKS_WRITE] };
+
+      expect(guardWith(false).handleRequest(null, writer, null, contextFor('write'))).toBe(writer);
+    });
+
+    it('should not restrict access tokens by scope', () => {
+      const user = { id: 'user-id', role: UserRole.USER };
+
+      expect(guardWith(false).handleRequest(null, user, null, contextFor('write'))).toBe(user);
+    });
+  });
+
+  it('should still reject requests without a valid token', () => {
+    expect(() => guardWith(true).handleRequest(null, false, null, contextFor('list'))).toThrow(
+      UnauthorizedException,
+    );
+  });
+});
@@ -1,5 +1,71 @@
-import { Injectable } from '@nestjs/common';
+import { ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { ALLOW_WITHOUT_TWO_FACTOR_KEY } from '../decorators/allow-without-two-factor.decorator';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import { AuthenticatedUser } from '../../../common/interfaces/authenticated-user.interface';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
 
+// Accepts access tokens and API keys; API keys only reach handlers marked with @RequireScopes
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {} 
\ No newline at end of file
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+  ) {
+    super();
+  }
+
+  /**
+   * With `REQUIRE_ADMIN_TWO_FACTOR` on, admins without two-factor
+   * authentication only get as far as enrolling. Checked here rather than in
+   * RolesGuard because admin rights also apply outside admin-only routes.
+   */
+  handleRequest<TUser = AuthenticatedUser>(
+    err: unknown,
+    user: unknown,
+    info: unknown,
+    context: ExecutionContext,
+    status?: unknown,
+  ): TUser {
+    // Throws unless a strategy authenticated the request, so `user` is one of ours from here on
+    const authenticated = super.handleRequest<AuthenticatedUser>(err, user, info, context, status);
+
+    if (
+      authenticated.role === UserRole.ADMIN &&
+      !authenticated.twoFactorEnabled &&
+      this.configService.get<boolean>('app.requireAdminTwoFactor') &&
+      !this.reflector.getAllAndOverride<boolean>(ALLOW_WITHOUT_TWO_FACTOR_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ])
+    ) {
+      throw new ForbiddenException('Admin accounts must enable two-factor authentication');
+    }
+
+    if (authenticated.apiKeyId) {
+      this.checkScopes(authenticated, context);
+    }
+
+    return authenticated as TUser;
+  }
+
+  private checkScopes(user: AuthenticatedUser, context: ExecutionContext): void {
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(REQUIRED_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requiredScopes) {
+      throw new ForbiddenException('API keys cannot be used for this endpoint');
+    }
+
+    const missing = requiredScopes.filter(scope => !user.scopes?.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing the required scope(s): ${missing.join(', ')}`,
+      );
+    }
+  }
+}
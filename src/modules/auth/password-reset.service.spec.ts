@@ -0,0 +1,152 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Repository } from 'typeorm';
+import { PasswordResetService } from './password-reset.service';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import { hashToken } from '../../common/utils/token-hash.util';
+
+const user = {
+  id: 'user-id',
+  email: 'user@example.com',
+  name: 'John Doe',
+  deletedAt: null,
+};
+
+const resetToken = (overrides: Partial<PasswordResetToken> = {}) =>
+  ({
+    id: 'reset-id',
+    userId: user.id,
+    token: hashToken('reset-token'),
+    expiresAt: new Date(Date.now() + 60000),
+    usedAt: null,
+    ...overrides,
+  }) as PasswordResetToken;
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+  let resetTokensRepository: {
+    findOne: jest.Mock;
+    update: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let usersService: { findByEmail: jest.Mock; update: jest.Mock };
+  let mailService: { send: jest.Mock };
+
+  // Lets the background issuing and mailing settle
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    resetTokensRepository = {
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      create: jest.fn(data => data),
+      save: jest.fn(data => Promise.resolve(data)),
+    };
+    usersService = { findByEmail: jest.fn(), update: jest.fn() };
+    mailService = { send: jest.fn().mockResolvedValue(undefined) };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) =>
+        key === 'app.passwordResetUrl' ? 'https://app.example.com/reset' : defaultValue,
+      ),
+    };
+
+    service = new PasswordResetService(
+      resetTokensRepository as unknown as Repository<PasswordResetToken>,
+      usersService as unknown as UsersService,
+      mailService as unknown as MailService,
+      configService as unknown as ConfigService,
+    );
+  });
+
+  describe('requestReset', () => {
+    it('should mail a link whose token is only stored hashed', async () => {
+      usersService.findByEmail.mockResolvedValue(user);
+
+      await service.requestReset(user.email);
+      await flushPromises();
+
+      const [message] = mailService.send.mock.calls[0];
+      const token = new URL(message.text.match(/https:\S+/)[0]).searchParams.get('token')!;
+      expect(message.to).toBe(user.email);
+      expect(resetTokensRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: user.id, token: hashToken(token) }),
+      );
+    });
+
+    it('should supersede earlier links', async () => {
+      usersService.findByEmail.mockResolvedValue(user);
+
+      await service.requestReset(user.email);
+      await flushPromises();
+
+      expect(resetTokensRepository.update).toHaveBeenCalledWith(
+        { userId: user.id, usedAt: IsNull() },
+        { usedAt: expect.any(Date) },
+      );
+    });
+
+    it('should quietly do nothing for unknown or deactivated accounts', async () => {
+      usersService.findByEmail.mockResolvedValueOnce(null);
+      await expect(service.requestReset('nobody@example.com')).resolves.toBeUndefined();
+
+      usersService.findByEmail.mockResolvedValueOnce({ ...user, deletedAt: new Date() });
+      await expect(service.requestReset(user.email)).resolves.toBeUndefined();
+
+      await flushPromises();
+      expect(mailService.send).not.toHaveBeenCalled();
+      expect(resetTokensRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should redeem the token and change the password', async () => {
+      resetTokensRepository.findOne.mockResolvedValue(resetToken());
+
+      await service.resetPassword('reset-token', 'NewPass123!');
+
+      expect(resetTokensRepository.findOne).toHaveBeenCalledWith({
+        where: { token: hashToken('reset-token') },
+      });
+      expect(resetTokensRepository.update).toHaveBeenCalledWith(
+        { id: 'reset-id', usedAt: IsNull() },
+        { usedAt: expect.any(Date) },
+      );
+      expect(usersService.update).toHaveBeenCalledWith(user.id, { password: 'NewPass123!' });
+    });
+
+    it.each([
+      ['unknown', null],
+      ['used', resetToken({ usedAt: new Date() })],
+      ['expired', resetToken({ expiresAt: new Date(Date.now() - 1000) })],
+    ])('should reject %s tokens', async (_label, stored) => {
+      resetTokensRepository.findOne.mockResolvedValue(stored);
+
+      await expect(service.resetPassword('reset-token', 'NewPass123!')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(usersService.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token redeemed concurrently', async () => {
+      resetTokensRepository.findOne.mockResolvedValue(resetToken());
+      resetTokensRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.resetPassword('reset-token', 'NewPass123!')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(usersService.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of deactivated accounts', async () => {
+      resetTokensRepository.findOne.mockResolvedValue(resetToken());
+      usersService.update.mockRejectedValue(new NotFoundException('User not found'));
+
+      await expect(service.resetPassword('reset-token', 'NewPass123!')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import { hashToken } from '../../common/utils/token-hash.util';
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    @InjectRepository(PasswordResetToken)
+    private readonly resetTokensRepository: Repository<PasswordResetToken>,
+    private readonly usersService: UsersService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Mails a reset link when the email belongs to an active account. Issuing
+   * and mailing run after the response, so known and unknown emails take the
+   * same time to answer and the caller learns nothing either way.
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+
+    if (!user || user.deletedAt) {
+      this.logger.debug('Password reset requested for an unknown or deactivated account');
+      return;
+    }
+
+    this.sendResetLink(user).catch(error =>
+      this.logger.error(`Failed to send password reset link to user ${user.id}:`, error),
+    );
+  }
+
+  // Sets a new password and ends every session, so whoever knew the old one is locked out
+  async resetPassword(token: string, password: string): Promise<void> {
+    const resetToken = await this.resetTokensRepository.findOne({
+      where: { token: hashToken(token) },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    // The conditional update keeps the token single use under concurrent redemptions
+    const claimed = await this.resetTokensRepository.update(
+      { id: resetToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    try {
+      // Changing the password bumps the token version and revokes refresh tokens
+      await this.usersService.update(resetToken.userId, { password });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new BadRequestException('Invalid or expired reset token');
+      }
+      throw error;
+    }
+
+    this.logger.log(`Password reset for user ${resetToken.userId}`);
+  }
+
+  private async sendResetLink(user: User): Promise<void> {
+    const token = randomBytes(32).toString('base64url');
+    const ttlMinutes = this.configService.get<number>('app.passwordResetTtlMinutes', 30);
+
+    // Only the latest link works
+    await this.resetTokensRepository.update(
+      { userId: user.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    await this.resetTokensRepository.save(
+      this.resetTokensRepository.create({
+        userId: user.id,
+        token: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      }),
+    );
+
+    const url = new URL(this.configService.get<string>('app.passwordResetUrl')!);
+    url.searchParams.set('token', token);
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        `Someone asked to reset the password of your account. Open the link below within ${ttlMinutes} minutes to choose a new one:`,
+        '',
+        url.toString(),
+        '',
+        'If this was not you, you can ignore this email; your password stays the same.',
+      ].join('\n'),
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport';
+import { Request } from 'express';
+import { UsersService } from '../../users/users.service';
+import { API_KEY_PREFIX, ApiKeysService } from '../../api-keys/api-keys.service';
+import { AuthenticatedUser } from '../../../common/interfaces/authenticated-user.interface';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+type VerifyApiKey = (
+  key: string,
+  done: (error: unknown, user?: AuthenticatedUser | false) => void,
+) => void;
+
+// Minimal passport strategy reading the key from `X-API-Key` or a Bearer header
+class HeaderApiKeyStrategy extends Strategy {
+  constructor(private readonly verify: VerifyApiKey) {
+    super();
+  }
+
+  authenticate(request: Request): void {
+    const key = extractApiKey(request);
+    if (!key) {
+      return this.fail(401);
+    }
+
+    this.verify(key, (error, user) => {
+      if (error) {
+        return this.error(error);
+      }
+      return user ? this.success(user) : this.fail(401);
+    });
+  }
+}
+
+function extractApiKey(request: Request): string | null {
+  const header = request.headers[API_KEY_HEADER];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  // JWTs in the same header are left to JwtStrategy
+  const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+  return scheme === 'Bearer' && token?.startsWith(API_KEY_PREFIX) ? token : null;
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(HeaderApiKeyStrategy, 'api-key') {
+  constructor(
+    private apiKeysService: ApiKeysService,
+    private usersService: UsersService,
+  ) {
+    super();
+  }
+
+  async validate(key: string): Promise<AuthenticatedUser> {
+    const apiKey = await this.apiKeysService.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid or expired API key');
+    }
+
+    // Keys of deactivated users stop working with the account
+    const user = await this.usersService.findOne(apiKey.userId).catch(error => {
+      if (error instanceof NotFoundException) {
+        return null;
+      }
+      throw error;
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      plan: user.plan,
+      emailVerified: !!user.emailVerifiedAt,
+      twoFactorEnabled: !!user.twoFactorEnabledAt,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+    };
+  }
+}
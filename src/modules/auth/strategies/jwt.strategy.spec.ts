@@ -1,7 +1,12 @@
 import { JwtStrategy } from './jwt.strategy';
-import { UnauthorizedException } from '@nestjs/common';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../../users/users.service';
+import { AuthService } from '../auth.service';
+import { JwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { TwoFactorService } from '../two-factor.service';
+import { User } from '../../users/entities/user.entity';
 
 const mockUser = {
   id: 'user-id',
@@ -14,6 +19,7 @@ describe('JwtStrategy', () => {
   let strategy: JwtStrategy;
   let configService: ConfigService;
   let usersService: UsersService;
+  let authService: jest.Mocked<Pick<AuthService, 'isSessionRevoked'>>;
 
   beforeEach(() => {
     configService = {
@@ -24,13 +30,18 @@ describe('JwtStrategy', () => {
 
     usersService = {
       findOne: jest.fn(),
+      getTokenVersion: jest.fn().mockResolvedValue(1),
     } as any;
 
-    strategy = new JwtStrategy(configService, usersService);
+    authService = {
+      isSessionRevoked: jest.fn().mockResolvedValue(false),
+    };
+
+    strategy = new JwtStrategy(configService, usersService, authService as unknown as AuthService);
   });
 
   it('should return the user details if user is found', async () => {
-    const payload = { sub: 'user-id' };
+    const payload = { sub: 'user-id', type: 'access', tokenVersion: 1 };
     (usersService.findOne as jest.Mock).mockResolvedValue(mockUser);
 
     const result = await strategy.validate(payload);
@@ -40,15 +51,88 @@ describe('JwtStrategy', () => {
       email: mockUser.email,
       name: mockUser.name,
       role: mockUser.role,
+      emailVerified: false,
+      twoFactorEnabled: false,
     });
     expect(usersService.findOne).toHaveBeenCalledWith('user-id');
   });
 
   it('should throw UnauthorizedException if user is not found', async () => {
-    const payload = { sub: 'unknown-id' };
+    const payload = { sub: 'unknown-id', type: 'access', tokenVersion: 1 };
     (usersService.findOne as jest.Mock).mockResolvedValue(null);
 
     await expect(strategy.validate(payload)).rejects.toThrow(UnauthorizedException);
     expect(usersService.findOne).toHaveBeenCalledWith('unknown-id');
   });
+
+  it('should throw UnauthorizedException if the user is deactivated', async () => {
+    const payload = { sub: 'user-id', type: 'access', tokenVersion: 1 };
+    (usersService.findOne as jest.Mock).mockRejectedValue(new NotFoundException('User not found'));
+
+    await expect(strategy.validate(payload)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject tokens issued before the token version was bumped', async () => {
+    const payload = { sub: 'user-id', type: 'access', tokenVersion: 1 };
+    (usersService.getTokenVersion as jest.Mock).mockResolvedValue(2);
+
+    await expect(strategy.validate(payload)).rejects.toThrow(UnauthorizedException);
+    expect(usersService.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should reject access tokens of a revoked session', async () => {
+    const payload = { sub: 'user-id', type: 'access', tokenVersion: 1, sid: 'session-id' };
+    authService.isSessionRevoked.mockResolvedValue(true);
+
+    await expect(strategy.validate(payload)).rejects.toThrow(UnauthorizedException);
+    expect(authService.isSessionRevoked).toHaveBeenCalledWith('session-id');
+  });
+
+  it('should reject tokens that are not access tokens', async () => {
+    await expect(
+      strategy.validate({ sub: 'user-id', tokenVersion: 1, purpose: '2fa-challenge' }),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      strategy.validate({
+        sub: 'user-id',
+        type: 'access',
+        tokenVersion: 1,
+        purpose: 'verify-email',
+      }),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(usersService.getTokenVersion).not.toHaveBeenCalled();
+  });
+
+  it('should not let a login challenge through, even one signed with the access token key', async () => {
+    (usersService.findOne as jest.Mock).mockResolvedValue(mockUser);
+    // Without TWO_FACTOR_CHALLENGE_SECRET, JwtService would sign with its module secret
+    const twoFactorService = new TwoFactorService(
+      {} as Repository<User>,
+      usersService,
+      new JwtService({ secret: 'test-secret' }),
+      { get: jest.fn() } as unknown as ConfigService,
+    );
+    const { challengeToken } = await twoFactorService.issueChallenge({
+      id: 'user-id',
+      email: mockUser.email,
+      tokenVersion: 1,
+    });
+
+    // Runs the token through passport the way JwtAuthGuard does
+    const outcome = await new Promise<string>(resolve => {
+      const attempt = Object.create(strategy);
+      attempt.success = () => resolve('success');
+      attempt.fail = () => resolve('fail');
+      attempt.error = () => resolve('error');
+      attempt.authenticate({ headers: { authorization: `Bearer ${challengeToken}` } });
+    });
+
+    expect(outcome).not.toBe('success');
+  });
+
+  it('should reject tokens without a token version', async () => {
+    await expect(strategy.validate({ sub: 'user-id', type: 'access' })).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
 });
\ No newline at end of file
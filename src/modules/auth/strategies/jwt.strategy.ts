@@ -1,14 +1,16 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../../users/users.service';
+import { AuthService } from '../auth.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
+    private authService: AuthService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -18,7 +20,29 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
-    const user = await this.usersService.findOne(payload.sub);
+    // Other tokens signed with the same key (login challenges, verification links) are no access
+    if (payload.type !== 'access' || payload.purpose !== undefined) {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    // Tokens issued before the last password change, role change or logout everywhere are dead
+    const tokenVersion = await this.usersService.getTokenVersion(payload.sub);
+    if (tokenVersion === null || payload.tokenVersion !== tokenVersion) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    // Logging a device out from the session list also ends its access token
+    if (payload.sid && (await this.authService.isSessionRevoked(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Deactivated users are not found, so their access tokens stop working right away
+    const user = await this.usersService.findOne(payload.sub).catch(error => {
+      if (error instanceof NotFoundException) {
+        return null;
+      }
+      throw error;
+    });
     
     if (!user) {
       throw new UnauthorizedException('User not found');
@@ -29,6 +53,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       email: user.email,
       name: user.name,
       role: user.role,
+      plan: user.plan,
+      emailVerified: !!user.emailVerifiedAt,
+      twoFactorEnabled: !!user.twoFactorEnabledAt,
+      sessionId: payload.sid,
     };
   }
 } 
\ No newline at end of file
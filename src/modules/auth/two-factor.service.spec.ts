@@ -0,0 +1,196 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { TwoFactorService } from './two-factor.service';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { PlanTier } from '../../common/enums/plan-tier.enum';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { openSecret, sealSecret } from '../../common/utils/secret-box.util';
+import { hashToken } from '../../common/utils/token-hash.util';
+import { generateHotp, generateTotpSecret, totpStep } from './utils/totp.util';
+
+const ENCRYPTION_KEY = 'encryption-key';
+
+const admin: AuthenticatedUser = {
+  id: 'user-id',
+  email: 'admin@example.com',
+  name: 'Admin',
+  role: UserRole.ADMIN,
+  plan: PlanTier.FREE,
+  emailVerified: true,
+  twoFactorEnabled: true,
+};
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let usersRepository: { findOne: jest.Mock; update: jest.Mock; createQueryBuilder: jest.Mock };
+  let queryBuilder: Record<string, jest.Mock>;
+  let usersService: { findOne: jest.Mock };
+  let config: Record<string, unknown>;
+
+  beforeEach(() => {
+    // Keeps the expected time step from moving on mid-test
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+
+    queryBuilder = {};
+    for (const method of ['update', 'set', 'where', 'andWhere', 'setParameter']) {
+      queryBuilder[method] = jest.fn().mockReturnValue(queryBuilder);
+    }
+    queryBuilder.execute = jest.fn().mockResolvedValue({ affected: 1 });
+
+    usersRepository = {
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    };
+    usersService = {
+      findOne: jest.fn().mockResolvedValue({ id: 'user-id', email: 'user@example.com' }),
+    };
+    config = {
+      TWO_FACTOR_ENCRYPTION_KEY: ENCRYPTION_KEY,
+      TWO_FACTOR_CHALLENGE_SECRET: 'challenge-secret',
+      'app.twoFactorIssuer': 'TaskFlow',
+      'app.requireAdminTwoFactor': false,
+    };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) => config[key] ?? defaultValue),
+    };
+
+    service = new TwoFactorService(
+      usersRepository as unknown as Repository<User>,
+      usersService as unknown as UsersService,
+      new JwtService({}),
+      configService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should store the enrolment secret encrypted and return it for the authenticator app', async () => {
+    const result = await service.enroll('user-id');
+
+    const [, changes] = usersRepository.update.mock.calls[0];
+    expect(changes.twoFactorSecret).not.toContain(result.secret);
+    expect(openSecret(changes.twoFactorSecret, ENCRYPTION_KEY)).toBe(result.secret);
+    expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+    expect(result.otpauthUri).toContain('TaskFlow%3Auser%40example.com');
+  });
+
+  it('should refuse to enrol twice', async () => {
+    usersService.findOne.mockResolvedValue({ id: 'user-id', twoFactorEnabledAt: new Date() });
+
+    await expect(service.enroll('user-id')).rejects.toThrow(ConflictException);
+  });
+
+  describe('confirm', () => {
+    const secret = generateTotpSecret();
+
+    beforeEach(() => {
+      usersRepository.findOne.mockResolvedValue({
+        id: 'user-id',
+        twoFactorSecret: sealSecret(secret, ENCRYPTION_KEY),
+        twoFactorEnabledAt: null,
+      });
+    });
+
+    it('should enable two-factor authentication and hand out hashed recovery codes', async () => {
+      const { recoveryCodes } = await service.confirm('user-id', generateHotp(secret, totpStep()));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toBe(10);
+      recoveryCodes.forEach(code => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+
+      const [, changes] = usersRepository.update.mock.calls[0];
+      expect(changes.twoFactorEnabledAt).toBeInstanceOf(Date);
+      expect(changes.twoFactorLastStep).toBe(totpStep());
+      expect(changes.twoFactorRecoveryCodes).toContain(
+        hashToken(recoveryCodes[0].replace('-', '')),
+      );
+    });
+
+    it('should reject a wrong first code', async () => {
+      await expect(service.confirm('user-id', '000000')).rejects.toThrow(BadRequestException);
+      expect(usersRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyCode', () => {
+    const secret = generateTotpSecret();
+
+    beforeEach(() => {
+      usersRepository.findOne.mockResolvedValue({
+        id: 'user-id',
+        twoFactorSecret: sealSecret(secret, ENCRYPTION_KEY),
+        twoFactorEnabledAt: new Date(),
+      });
+    });
+
+    it('should accept a current authenticator code only past the last used step', async () => {
+      await expect(service.verifyCode('user-id', generateHotp(secret, totpStep()))).resolves.toBe(
+        true,
+      );
+      expect(queryBuilder.set).toHaveBeenCalledWith({ twoFactorLastStep: totpStep() });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('two_factor_last_step < :step'),
+        { step: totpStep() },
+      );
+    });
+
+    it('should reject an authenticator code that was already used', async () => {
+      queryBuilder.execute.mockResolvedValue({ affected: 0 });
+
+      await expect(service.verifyCode('user-id', generateHotp(secret, totpStep()))).resolves.toBe(
+        false,
+      );
+    });
+
+    it('should consume a recovery code however it is typed', async () => {
+      await expect(service.verifyCode('user-id', ' K3M9Q-X7P2D ')).resolves.toBe(true);
+      expect(queryBuilder.setParameter).toHaveBeenCalledWith('hash', hashToken('k3m9qx7p2d'));
+    });
+
+    it('should reject an unknown recovery code', async () => {
+      queryBuilder.execute.mockResolvedValue({ affected: 0 });
+
+      await expect(service.verifyCode('user-id', 'aaaaa-bbbbb')).resolves.toBe(false);
+    });
+  });
+
+  it('should keep admins from turning it off while it is required', async () => {
+    config['app.requireAdminTwoFactor'] = true;
+
+    await expect(service.disable(admin, '123456')).rejects.toThrow(ForbiddenException);
+    expect(usersRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should round-trip a login challenge', async () => {
+    const { challengeToken, expiresIn } = await service.issueChallenge(
+      { id: 'user-id', email: 'user@example.com', tokenVersion: 3 },
+      'Work laptop',
+    );
+
+    expect(expiresIn).toBe(300);
+    await expect(service.verifyChallenge(challengeToken)).resolves.toMatchObject({
+      sub: 'user-id',
+      tokenVersion: 3,
+      deviceName: 'Work laptop',
+    });
+  });
+
+  it('should reject tokens that are not login challenges', async () => {
+    const token = await new JwtService({}).signAsync(
+      { sub: 'user-id', purpose: 'verify-email' },
+      { secret: 'challenge-secret' },
+    );
+
+    await expect(service.verifyChallenge(token)).rejects.toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { hashToken } from '../../common/utils/token-hash.util';
+import { openSecret, sealSecret } from '../../common/utils/secret-box.util';
+import {
+  RecoveryCodesDto,
+  TwoFactorChallengeDto,
+  TwoFactorEnrollmentDto,
+} from './dto/two-factor.dto';
+import {
+  buildOtpauthUri,
+  encodeBase32,
+  generateTotpSecret,
+  matchTotpStep,
+} from './utils/totp.util';
+
+const TWO_FACTOR_CHALLENGE_PURPOSE = '2fa-challenge';
+
+export interface TwoFactorChallengePayload {
+  sub: string;
+  email: string;
+  tokenVersion: number;
+  deviceName?: string;
+  purpose: typeof TWO_FACTOR_CHALLENGE_PURPOSE;
+}
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly RECOVERY_CODE_COUNT = 10;
+  private readonly CHALLENGE_TTL = 5 * 60; // seconds
+
+  constructor(
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Starts enrolment with a fresh secret. Nothing changes for the user until
+   * `confirm` proves the authenticator app produces matching codes; enrolling
+   * again before that replaces the secret.
+   */
+  async enroll(userId: string): Promise<TwoFactorEnrollmentDto> {
+    const user = await this.usersService.findOne(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersRepository.update(user.id, {
+      twoFactorSecret: sealSecret(secret, this.encryptionKey()),
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(
+        secret,
+        user.email,
+        this.configService.get<string>('app.twoFactorIssuer', 'TaskFlow'),
+      ),
+    };
+  }
+
+  // Turns two-factor authentication on; the recovery codes are only ever returned here
+  async confirm(userId: string, code: string): Promise<RecoveryCodesDto> {
+    const user = await this.findWithSecrets(userId);
+
+    if (user?.twoFactorEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+    if (!user?.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor enrolment first');
+    }
+
+    const step = matchTotpStep(openSecret(user.twoFactorSecret, this.encryptionKey()), code.trim());
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    const result = await this.usersRepository.update(
+      { id: userId, twoFactorEnabledAt: IsNull() },
+      {
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+      },
+    );
+    if (!result.affected) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+    return { recoveryCodes };
+  }
+
+  async disable(user: AuthenticatedUser, code: string): Promise<void> {
+    if (
+      user.role === UserRole.ADMIN &&
+      this.configService.get<boolean>('app.requireAdminTwoFactor')
+    ) {
+      throw new ForbiddenException('Admin accounts must keep two-factor authentication enabled');
+    }
+
+    if (!(await this.verifyCode(user.id, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.usersRepository.update(user.id, {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+    });
+
+    this.logger.log(`Two-factor authentication disabled for user ${user.id}`);
+  }
+
+  /**
+   * Checks an authenticator code or a recovery code. Either is consumed by a
+   * conditional update, so a code only ever succeeds once, even when two
+   * requests race with it.
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const trimmed = code.trim();
+
+    return /^\d{6}$/.test(trimmed)
+      ? this.useTotpCode(userId, trimmed)
+      : this.useRecoveryCode(userId, trimmed);
+  }
+
+  // Short-lived proof that the password step succeeded; worthless without a second factor
+  async issueChallenge(
+    user: Pick<User, 'id' | 'email' | 'tokenVersion'>,
+    deviceName?: string,
+  ): Promise<TwoFactorChallengeDto> {
+    const payload: TwoFactorChallengePayload = {
+      sub: user.id,
+      email: user.email,
+      tokenVersion: user.tokenVersion,
+      deviceName,
+      purpose: TWO_FACTOR_CHALLENGE_PURPOSE,
+    };
+    const challengeToken = await this.jwtService.signAsync(payload, {
+      secret: this.configService.get('TWO_FACTOR_CHALLENGE_SECRET'),
+      expiresIn: this.CHALLENGE_TTL,
+    });
+
+    return { twoFactorRequired: true, challengeToken, expiresIn: this.CHALLENGE_TTL };
+  }
+
+  async verifyChallenge(challengeToken: string): Promise<TwoFactorChallengePayload> {
+    const payload = await this.jwtService
+      .verifyAsync<TwoFactorChallengePayload>(challengeToken, {
+        secret: this.configService.get('TWO_FACTOR_CHALLENGE_SECRET'),
+      })
+      .catch(() => null);
+
+    if (!payload || payload.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE) {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    return payload;
+  }
+
+  private async useTotpCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.findWithSecrets(userId);
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = matchTotpStep(openSecret(user.twoFactorSecret, this.encryptionKey()), code);
+    if (step === null) {
+      return false;
+    }
+
+    // Only moves forward, which also refuses codes from before the last one used
+    const result = await this.usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ twoFactorLastStep: step })
+      .where('id = :userId', { userId })
+      .andWhere('(two_factor_last_step IS NULL OR two_factor_last_step < :step)', { step })
+      .execute();
+
+    return !!result.affected;
+  }
+
+  private async useRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const hash = this.hashRecoveryCode(code);
+
+    const result = await this.usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ twoFactorRecoveryCodes: () => 'array_remove(two_factor_recovery_codes, :hash)' })
+      .where('id = :userId', { userId })
+      .andWhere('two_factor_enabled_at IS NOT NULL')
+      .andWhere(':hash = ANY(two_factor_recovery_codes)')
+      .setParameter('hash', hash)
+      .execute();
+
+    if (result.affected) {
+      this.logger.log(`Recovery code used by user ${userId}`);
+    }
+    return !!result.affected;
+  }
+
+  private findWithSecrets(userId: string): Promise<User | null> {
+    return this.usersRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'twoFactorSecret', 'twoFactorEnabledAt'],
+    });
+  }
+
+  // Codes look like k3m9q-x7p2d: 50 random bits each, easy to type from a printout
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const code = encodeBase32(randomBytes(7)).slice(0, 10).toLowerCase();
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  // Dashes, spaces and case do not matter when a code is typed back in
+  private hashRecoveryCode(code: string): string {
+    return hashToken(code.replace(/[\s-]/g, '').toLowerCase());
+  }
+
+  private encryptionKey(): string {
+    const key = this.configService.get<string>('TWO_FACTOR_ENCRYPTION_KEY');
+    if (!key) {
+      throw new Error('Missing required configuration: TWO_FACTOR_ENCRYPTION_KEY');
+    }
+    return key;
+  }
+}
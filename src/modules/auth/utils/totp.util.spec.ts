@@ -0,0 +1,49 @@
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateHotp,
+  generateTotpSecret,
+  matchTotpStep,
+  totpStep,
+} from './totp.util';
+
+// Shared secret of the RFC 4226 and RFC 6238 test vectors
+const RFC_SECRET = encodeBase32(Buffer.from('12345678901234567890'));
+
+describe('totp util', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('any secret bytes!');
+    expect(decodeBase32(encodeBase32(bytes))).toEqual(bytes);
+    expect(encodeBase32(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('should match the RFC 4226 HOTP test vectors', () => {
+    expect(generateHotp(RFC_SECRET, 0)).toBe('755224');
+    expect(generateHotp(RFC_SECRET, 1)).toBe('287082');
+    expect(generateHotp(RFC_SECRET, 9)).toBe('520489');
+  });
+
+  it('should match the RFC 6238 TOTP test vectors', () => {
+    expect(generateHotp(RFC_SECRET, totpStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateHotp(RFC_SECRET, totpStep(1111111109 * 1000), 8)).toBe('07081804');
+  });
+
+  it('should accept codes one step off and reject the rest', () => {
+    const secret = generateTotpSecret();
+    const now = 1700000000000;
+    const step = totpStep(now);
+
+    expect(matchTotpStep(secret, generateHotp(secret, step), now)).toBe(step);
+    expect(matchTotpStep(secret, generateHotp(secret, step - 1), now)).toBe(step - 1);
+    expect(matchTotpStep(secret, generateHotp(secret, step + 1), now)).toBe(step + 1);
+    expect(matchTotpStep(secret, generateHotp(secret, step - 2), now)).toBeNull();
+    expect(matchTotpStep(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    expect(buildOtpauthUri('JBSWY3DPEHPK3PXP', 'user@example.com', 'TaskFlow')).toBe(
+      'otpauth://totp/TaskFlow%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=TaskFlow&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './transports/mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>('mail.transport');
+        switch (transport) {
+          case 'console':
+            return new ConsoleMailTransport();
+          case 'file':
+            return new FileMailTransport(configService.get<string>('mail.fileDirectory')!);
+          default:
+            throw new Error(`Unknown mail transport: ${transport}`);
+        }
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,22 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './transports/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async send(message: Omit<MailMessage, 'from'>): Promise<void> {
+    await this.transport.send({
+      from: this.configService.get<string>('mail.from')!,
+      ...message,
+    });
+
+    this.logger.log(`Sent "${message.subject}" to ${message.to}`);
+  }
+}
@@ -0,0 +1,13 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+// Local development only: the message, links included, ends up in the logs
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Mail to ${message.to} from ${message.from}: ${message.subject}\n${message.text}`,
+    );
+  }
+}
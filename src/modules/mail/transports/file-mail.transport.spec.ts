@@ -0,0 +1,38 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMailTransport } from './file-mail.transport';
+
+describe('FileMailTransport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write each message to its own file', async () => {
+    const transport = new FileMailTransport(join(directory, 'outbox'));
+    const message = {
+      from: 'no-reply@example.com',
+      to: 'user@example.com',
+      subject: 'Hello',
+      text: 'Body',
+    };
+
+    await transport.send(message);
+    await transport.send({ ...message, subject: 'Again' });
+
+    const files = await readdir(join(directory, 'outbox'));
+    expect(files).toHaveLength(2);
+
+    const mails = await Promise.all(
+      files.map(async file => JSON.parse(await readFile(join(directory, 'outbox', file), 'utf8'))),
+    );
+    expect(mails.map(mail => mail.subject).sort()).toEqual(['Again', 'Hello']);
+    expect(mails[0]).toEqual(expect.objectContaining({ to: 'user@example.com', text: 'Body' }));
+  });
+});
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Website relaunch' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Everything for the Q3 website relaunch', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Member that new project tasks are assigned to by default',
+  })
+  @IsUUID()
+  @IsOptional()
+  defaultAssigneeId?: string;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'Initial members besides the creator',
+  })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  memberIds?: string[];
+}
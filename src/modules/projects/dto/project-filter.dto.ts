@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../../common/dto/pagination-query.dto';
+
+export class ProjectFilterDto extends PaginationQueryDto {
+  @ApiProperty({
+    example: false,
+    required: false,
+    default: false,
+    description: 'List archived projects instead of active ones',
+  })
+  // Query strings arrive as text, so 'false' must not be coerced to true
+  @Transform(({ obj, key }) =>
+    obj[key] === 'true' ? true : obj[key] === 'false' ? false : obj[key],
+  )
+  @IsOptional()
+  @IsBoolean()
+  archived?: boolean;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsUUID, ValidateIf } from 'class-validator';
+import { CreateProjectDto } from './create-project.dto';
+
+// Members are managed through /projects/:id/members
+export class UpdateProjectDto extends PartialType(
+  OmitType(CreateProjectDto, ['memberIds', 'defaultAssigneeId'] as const),
+) {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Member that new project tasks are assigned to by default; null clears it',
+  })
+  @ValidateIf((_object, value) => value !== null && value !== undefined)
+  @IsUUID()
+  defaultAssigneeId?: string | null;
+
+  @ApiProperty({ example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  archived?: boolean;
+}
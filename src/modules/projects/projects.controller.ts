@@ -0,0 +1,112 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ProjectsService } from './projects.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ProjectFilterDto } from './dto/project-filter.dto';
+import { AddProjectMemberDto } from './dto/project-member.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { EmailVerificationGuard } from '../auth/guards/email-verification.guard';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+@ApiTags('projects')
+@Controller('projects')
+@UseGuards(JwtAuthGuard, EmailVerificationGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class ProjectsController {
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a project; the caller becomes its owner' })
+  create(@Body() createProjectDto: CreateProjectDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.projectsService.create(createProjectDto, user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the projects you are a member of' })
+  async findAll(@Query() filter: ProjectFilterDto, @CurrentUser() user: AuthenticatedUser) {
+    if (filter.cursor !== undefined) {
+      const { items, nextCursor, prevCursor } = await this.projectsService.findAllByCursor(
+        filter,
+        user,
+      );
+
+      return {
+        data: items,
+        count: items.length,
+        nextCursor,
+        prevCursor,
+      };
+    }
+
+    const { projects, total, pages } = await this.projectsService.findAll(filter, user);
+
+    return {
+      data: projects,
+      count: projects.length,
+      total,
+      total_pages: pages,
+      page: filter.page,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a project by ID' })
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.projectsService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update or archive a project' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateProjectDto: UpdateProjectDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.projectsService.update(id, updateProjectDto, user);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a project; its tasks are kept outside any project' })
+  remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.projectsService.remove(id, user);
+  }
+
+  @Post(':id/members')
+  @ApiOperation({ summary: 'Add a member to a project' })
+  addMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() addProjectMemberDto: AddProjectMemberDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.projectsService.addMember(id, addProjectMemberDto.userId, user);
+  }
+
+  @Delete(':id/members/:userId')
+  @ApiOperation({ summary: 'Remove a member from a project' })
+  removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.projectsService.removeMember(id, userId, user);
+  }
+}
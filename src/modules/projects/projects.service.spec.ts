@@ -0,0 +1,175 @@
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ProjectsService } from './projects.service';
+import { Project } from './entities/project.entity';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { PlanTier } from '../../common/enums/plan-tier.enum';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+const owner: AuthenticatedUser = {
+  id: 'owner-id',
+  email: 'owner@example.com',
+  name: 'Owner',
+  role: UserRole.USER,
+  plan: PlanTier.FREE,
+  emailVerified: true,
+  twoFactorEnabled: false,
+};
+const member: AuthenticatedUser = {
+  id: 'member-id',
+  email: 'member@example.com',
+  name: 'Member',
+  role: UserRole.USER,
+  plan: PlanTier.FREE,
+  emailVerified: true,
+  twoFactorEnabled: false,
+};
+const outsider: AuthenticatedUser = {
+  id: 'outsider-id',
+  email: 'out@example.com',
+  name: 'Out',
+  role: UserRole.USER,
+  plan: PlanTier.FREE,
+  emailVerified: true,
+  twoFactorEnabled: false,
+};
+
+const project = (overrides: Partial<Project> = {}) =>
+  ({
+    id: 'project-id',
+    name: 'Website relaunch',
+    archived: false,
+    ownerId: owner.id,
+    defaultAssigneeId: null,
+    members: [{ id: owner.id }, { id: member.id }],
+    ...overrides,
+  }) as Project;
+
+describe('ProjectsService', () => {
+  let service: ProjectsService;
+  let relation: { of: jest.Mock; add: jest.Mock; remove: jest.Mock };
+
+  const mockRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    merge: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(),
+    manager: { find: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    relation = {
+      of: jest.fn().mockReturnThis(),
+      add: jest.fn(),
+      remove: jest.fn(),
+    };
+    mockRepository.createQueryBuilder.mockReturnValue({
+      relation: jest.fn().mockReturnValue(relation),
+    });
+    mockRepository.create.mockImplementation(data => data);
+    mockRepository.save.mockImplementation(data => Promise.resolve({ id: 'project-id', ...data }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectsService,
+        { provide: getRepositoryToken(Project), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<ProjectsService>(ProjectsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should make the creator the owner and a member', async () => {
+      mockRepository.manager.find.mockResolvedValue([{ id: owner.id }, { id: member.id }]);
+      mockRepository.findOne.mockResolvedValue(project());
+
+      await service.create({ name: 'Website relaunch', memberIds: [member.id, owner.id] }, owner);
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ownerId: owner.id,
+          members: [{ id: owner.id }, { id: member.id }],
+        }),
+      );
+    });
+
+    it('should reject unknown members', async () => {
+      mockRepository.manager.find.mockResolvedValue([{ id: owner.id }]);
+
+      await expect(
+        service.create({ name: 'Website relaunch', memberIds: ['ghost-id'] }, owner),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should hide projects from non-members', async () => {
+      mockRepository.findOne.mockResolvedValue(project());
+
+      await expect(service.findOne('project-id', outsider)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('members', () => {
+    it('should only let the owner manage members', async () => {
+      mockRepository.findOne.mockResolvedValue(project());
+
+      await expect(service.addMember('project-id', outsider.id, member)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should not remove the owner', async () => {
+      mockRepository.findOne.mockResolvedValue(project());
+
+      await expect(service.removeMember('project-id', owner.id, owner)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should clear the default assignee when that member leaves', async () => {
+      mockRepository.findOne.mockResolvedValue(project({ defaultAssigneeId: member.id }));
+
+      await service.removeMember('project-id', member.id, owner);
+
+      expect(relation.remove).toHaveBeenCalledWith(member.id);
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        { id: 'project-id' },
+        { defaultAssigneeId: null },
+      );
+    });
+  });
+
+  describe('resolveAssignee', () => {
+    it('should fall back to the default assignee', async () => {
+      mockRepository.findOne.mockResolvedValue(project({ defaultAssigneeId: member.id }));
+
+      await expect(service.resolveAssignee('project-id', owner)).resolves.toBe(member.id);
+    });
+
+    it('should reject assignees outside the project', async () => {
+      mockRepository.findOne.mockResolvedValue(project());
+
+      await expect(service.resolveAssignee('project-id', owner, outsider.id)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject new tasks in archived projects', async () => {
+      mockRepository.findOne.mockResolvedValue(project({ archived: true }));
+
+      await expect(service.resolveAssignee('project-id', owner)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+import { Project } from './entities/project.entity';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ProjectFilterDto } from './dto/project-filter.dto';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { CursorPage } from '../../types/pagination.interface';
+import { paginateByCursor } from '../../common/utils/keyset-pagination.util';
+import { applySort, parseSort, SortableFields } from '../../common/utils/sort.util';
+
+const PROJECT_SORTABLE_FIELDS: SortableFields = {
+  name: { expression: 'project.name' },
+  createdAt: { expression: 'project.createdAt' },
+  updatedAt: { expression: 'project.updatedAt' },
+};
+
+const DEFAULT_PROJECT_SORT = 'name';
+
+@Injectable()
+export class ProjectsService {
+  private readonly logger = new Logger(ProjectsService.name);
+
+  constructor(
+    @InjectRepository(Project)
+    private projectsRepository: Repository<Project>,
+  ) {}
+
+  async create(createProjectDto: CreateProjectDto, user: AuthenticatedUser): Promise<Project> {
+    const { memberIds = [], ...fields } = createProjectDto;
+    const members = await this.loadUsers([user.id, ...memberIds]);
+
+    if (
+      fields.defaultAssigneeId &&
+      !members.some(member => member.id === fields.defaultAssigneeId)
+    ) {
+      throw new BadRequestException('The default assignee must be a member of the project');
+    }
+
+    const project = await this.projectsRepository.save(
+      this.projectsRepository.create({ ...fields, ownerId: user.id, members }),
+    );
+    this.logger.log(`Project ${project.id} created by user ${user.id}`);
+
+    return this.findOne(project.id, user);
+  }
+
+  async findAll(
+    filter: ProjectFilterDto,
+    user: AuthenticatedUser,
+  ): Promise<{ projects: Project[]; total: number; pages: number }> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 10;
+
+    const sortKeys = parseSort(filter, PROJECT_SORTABLE_FIELDS, DEFAULT_PROJECT_SORT, 'project.id');
+    const queryBuilder = this.createListQuery(filter, user)
+      .limit(limit)
+      .offset((page - 1) * limit);
+    applySort(queryBuilder, sortKeys);
+
+    const [projects, total] = await queryBuilder.getManyAndCount();
+    return { projects, total, pages: Math.ceil(total / limit) };
+  }
+
+  async findAllByCursor(
+    filter: ProjectFilterDto,
+    user: AuthenticatedUser,
+  ): Promise<CursorPage<Project>> {
+    const sortKeys = parseSort(filter, PROJECT_SORTABLE_FIELDS, DEFAULT_PROJECT_SORT, 'project.id');
+
+    return paginateByCursor(
+      this.createListQuery(filter, user),
+      sortKeys,
+      filter.cursor ?? '',
+      filter.limit ?? 10,
+    );
+  }
+
+  // Projects are visible to their members; other projects are reported as missing
+  async findOne(id: string, user: AuthenticatedUser): Promise<Project> {
+    const project = await this.projectsRepository.findOne({
+      where: { id },
+      relations: { members: true },
+      select: {
+        members: { id: true, name: true, email: true },
+      },
+    });
+
+    if (!project || !this.isVisibleTo(project, user)) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+
+  async update(
+    id: string,
+    updateProjectDto: UpdateProjectDto,
+    user: AuthenticatedUser,
+  ): Promise<Project> {
+    const project = await this.findManageable(id, user);
+
+    if (
+      updateProjectDto.defaultAssigneeId &&
+      !project.members!.some(member => member.id === updateProjectDto.defaultAssigneeId)
+    ) {
+      throw new BadRequestException('The default assignee must be a member of the project');
+    }
+
+    this.projectsRepository.merge(project, updateProjectDto);
+    await this.projectsRepository.save(project);
+
+    return this.findOne(id, user);
+  }
+
+  async remove(id: string, user: AuthenticatedUser): Promise<void> {
+    await this.findManageable(id, user);
+
+    // Tasks of the project stay with their assignees, outside any project (ON DELETE SET NULL)
+    await this.projectsRepository.delete({ id });
+    this.logger.log(`Project ${id} deleted by user ${user.id}`);
+  }
+
+  async addMember(id: string, userId: string, user: AuthenticatedUser): Promise<Project> {
+    const project = await this.findManageable(id, user);
+
+    if (!project.members!.some(member => member.id === userId)) {
+      await this.loadUsers([userId]);
+      await this.projectsRepository
+        .createQueryBuilder()
+        .relation(Project, 'members')
+        .of(id)
+        .add(userId);
+    }
+
+    return this.findOne(id, user);
+  }
+
+  async removeMember(id: string, userId: string, user: AuthenticatedUser): Promise<Project> {
+    const project = await this.findManageable(id, user);
+
+    if (userId === project.ownerId) {
+      throw new BadRequestException('The project owner cannot be removed');
+    }
+    if (!project.members!.some(member => member.id === userId)) {
+      throw new NotFoundException('User is not a member of this project');
+    }
+
+    await this.projectsRepository
+      .createQueryBuilder()
+      .relation(Project, 'members')
+      .of(id)
+      .remove(userId);
+    if (project.defaultAssigneeId === userId) {
+      await this.projectsRepository.update({ id }, { defaultAssigneeId: null });
+    }
+
+    return this.findOne(id, user);
+  }
+
+  /**
+   * Picks the assignee for a new task in a project: the requested user, else
+   * the project's default assignee, else the caller. Members may assign tasks
+   * to other members; archived projects take no new tasks.
+   */
+  async resolveAssignee(
+    projectId: string,
+    user: AuthenticatedUser,
+    requestedUserId?: string,
+  ): Promise<string> {
+    const project = await this.findOne(projectId, user);
+
+    if (project.archived) {
+      throw new BadRequestException('Archived projects do not accept new tasks');
+    }
+
+    const assigneeId = requestedUserId ?? project.defaultAssigneeId ?? user.id;
+    const isAssignable =
+      user.role === UserRole.ADMIN || project.members!.some(member => member.id === assigneeId);
+
+    if (!isAssignable) {
+      throw new BadRequestException('Tasks can only be assigned to project members');
+    }
+
+    return assigneeId;
+  }
+
+  private createListQuery(
+    filter: ProjectFilterDto,
+    user: AuthenticatedUser,
+  ): SelectQueryBuilder<Project> {
+    const queryBuilder = this.projectsRepository
+      .createQueryBuilder('project')
+      .where('project.archived = :archived', { archived: filter.archived ?? false });
+
+    if (user.role !== UserRole.ADMIN) {
+      queryBuilder.andWhere(
+        'EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = project.id AND pm.user_id = :memberId)',
+        { memberId: user.id },
+      );
+    }
+
+    return queryBuilder;
+  }
+
+  private async findManageable(id: string, user: AuthenticatedUser): Promise<Project> {
+    const project = await this.findOne(id, user);
+
+    if (user.role !== UserRole.ADMIN && project.ownerId !== user.id) {
+      throw new ForbiddenException('Only the project owner can change this project');
+    }
+
+    return project;
+  }
+
+  private isVisibleTo(project: Project, user: AuthenticatedUser): boolean {
+    return user.role === UserRole.ADMIN || project.members!.some(member => member.id === user.id);
+  }
+
+  private async loadUsers(userIds: string[]): Promise<User[]> {
+    const uniqueIds = Array.from(new Set(userIds));
+    const users = await this.projectsRepository.manager.find(User, {
+      where: { id: In(uniqueIds) },
+      select: ['id'],
+    });
+
+    if (users.length !== uniqueIds.length) {
+      const found = new Set(users.map(found => found.id));
+      const unknown = uniqueIds.filter(userId => !found.has(userId));
+      throw new BadRequestException(`Unknown user(s): ${unknown.join(', ')}`);
+    }
+
+    return users;
+  }
+}
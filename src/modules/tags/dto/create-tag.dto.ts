@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsHexColor, IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateTagDto {
+  @ApiProperty({ example: 'backend' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: '#3B82F6', required: false, description: 'Hex colour, #RRGGBB' })
+  @IsHexColor()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be in #RRGGBB format' })
+  @IsOptional()
+  color?: string;
+}
@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { EmailVerificationGuard } from '../auth/guards/email-verification.guard';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+@ApiTags('tags')
+@Controller('tags')
+@UseGuards(JwtAuthGuard, EmailVerificationGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a tag' })
+  create(@Body() createTagDto: CreateTagDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.tagsService.create(createTagDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your tags' })
+  findAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.tagsService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a tag by ID' })
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.tagsService.findOne(id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename or recolour a tag' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTagDto: UpdateTagDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.tagsService.update(id, updateTagDto, user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a tag and remove it from all tasks' })
+  remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.tagsService.remove(id, user.id);
+  }
+}
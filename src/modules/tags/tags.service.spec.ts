@@ -0,0 +1,85 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TagsService } from './tags.service';
+import { Tag } from './entities/tag.entity';
+
+describe('TagsService', () => {
+  let service: TagsService;
+  let queryBuilder: { where: jest.Mock; andWhere: jest.Mock; getExists: jest.Mock };
+
+  const mockRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    merge: jest.fn(),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getExists: jest.fn().mockResolvedValue(false),
+    };
+    mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+    mockRepository.create.mockImplementation(data => data);
+    mockRepository.save.mockImplementation(data => Promise.resolve({ id: 'tag-id', ...data }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TagsService, { provide: getRepositoryToken(Tag), useValue: mockRepository }],
+    }).compile();
+
+    service = module.get<TagsService>(TagsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a tag owned by the caller', async () => {
+      const tag = await service.create({ name: 'backend', color: '#3B82F6' }, 'user-id');
+
+      expect(tag).toEqual({ id: 'tag-id', name: 'backend', color: '#3B82F6', userId: 'user-id' });
+    });
+
+    it('should reject a name the user already has, ignoring case', async () => {
+      queryBuilder.getExists.mockResolvedValue(true);
+
+      await expect(service.create({ name: 'Backend' }, 'user-id')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('LOWER(tag.name) = LOWER(:name)', {
+        name: 'Backend',
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it("should not find another user's tag", async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('tag-id', 'other-id')).rejects.toThrow(NotFoundException);
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'tag-id', userId: 'other-id' },
+      });
+    });
+  });
+
+  describe('resolveTags', () => {
+    it('should return the requested tags', async () => {
+      mockRepository.find.mockResolvedValue([{ id: 'a' }, { id: 'b' }]);
+
+      await expect(service.resolveTags(['a', 'b', 'a'], 'user-id')).resolves.toHaveLength(2);
+    });
+
+    it('should reject tags the owner does not have', async () => {
+      mockRepository.find.mockResolvedValue([{ id: 'a' }]);
+
+      await expect(service.resolveTags(['a', 'b'], 'user-id')).rejects.toThrow(BadRequestException);
+    });
+  });
+});
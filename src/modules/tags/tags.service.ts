@@ -0,0 +1,151 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Tag } from './entities/tag.entity';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { TaskStatus } from '../tasks/enums/task-status.enum';
+
+export interface TagTaskCounts {
+  tagId: string;
+  name: string;
+  color: string;
+  total: number;
+  completed: number;
+  inProgress: number;
+  pending: number;
+}
+
+@Injectable()
+export class TagsService {
+  private readonly logger = new Logger(TagsService.name);
+
+  constructor(
+    @InjectRepository(Tag)
+    private tagsRepository: Repository<Tag>,
+  ) {}
+
+  async create(createTagDto: CreateTagDto, userId: string): Promise<Tag> {
+    await this.assertNameAvailable(createTagDto.name, userId);
+
+    const tag = await this.tagsRepository.save(
+      this.tagsRepository.create({ ...createTagDto, userId }),
+    );
+    this.logger.log(`Tag ${tag.id} created for user ${userId}`);
+
+    return tag;
+  }
+
+  findAll(userId: string): Promise<Tag[]> {
+    return this.tagsRepository.find({ where: { userId }, order: { name: 'ASC' } });
+  }
+
+  async findOne(id: string, userId: string): Promise<Tag> {
+    const tag = await this.tagsRepository.findOne({ where: { id, userId } });
+
+    if (!tag) {
+      throw new NotFoundException('Tag not found');
+    }
+
+    return tag;
+  }
+
+  async update(id: string, updateTagDto: UpdateTagDto, userId: string): Promise<Tag> {
+    const tag = await this.findOne(id, userId);
+
+    if (updateTagDto.name !== undefined) {
+      await this.assertNameAvailable(updateTagDto.name, userId, id);
+    }
+
+    return this.tagsRepository.save(this.tagsRepository.merge(tag, updateTagDto));
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    const result = await this.tagsRepository.delete({ id, userId });
+
+    if (result.affected === 0) {
+      throw new NotFoundException('Tag not found');
+    }
+  }
+
+  // Loads the given tags, which must all belong to `userId`
+  async resolveTags(tagIds: string[], userId: string): Promise<Tag[]> {
+    const uniqueIds = Array.from(new Set(tagIds));
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    const tags = await this.tagsRepository.find({ where: { id: In(uniqueIds), userId } });
+    if (tags.length !== uniqueIds.length) {
+      const found = new Set(tags.map(tag => tag.id));
+      const unknown = uniqueIds.filter(id => !found.has(id));
+      throw new BadRequestException(`Unknown tag(s) for this task owner: ${unknown.join(', ')}`);
+    }
+
+    return tags;
+  }
+
+  // Per-tag task counts, optionally limited to the tasks of one owner or project
+  async countTasksByTag(
+    scope: { userId?: string; projectId?: string } = {},
+  ): Promise<TagTaskCounts[]> {
+    const query = this.tagsRepository
+      .createQueryBuilder('tag')
+      .innerJoin('tag.tasks', 'task')
+      .select('tag.id', 'tagId')
+      .addSelect('tag.name', 'name')
+      .addSelect('tag.color', 'color')
+      .addSelect('COUNT(task.id)', 'total')
+      .addSelect('COUNT(task.id) FILTER (WHERE task.status = :completed)', 'completed')
+      .addSelect('COUNT(task.id) FILTER (WHERE task.status = :inProgress)', 'inProgress')
+      .addSelect('COUNT(task.id) FILTER (WHERE task.status = :pending)', 'pending')
+      .setParameters({
+        completed: TaskStatus.COMPLETED,
+        inProgress: TaskStatus.IN_PROGRESS,
+        pending: TaskStatus.PENDING,
+      })
+      .groupBy('tag.id')
+      .orderBy('tag.name', 'ASC');
+
+    if (scope.userId) {
+      query.andWhere('task.userId = :ownerId', { ownerId: scope.userId });
+    }
+    if (scope.projectId) {
+      query.andWhere('task.projectId = :projectId', { projectId: scope.projectId });
+    }
+
+    const rows = await query.getRawMany();
+
+    // COUNT comes back from Postgres as a bigint string
+    return rows.map(row => ({
+      tagId: row.tagId,
+      name: row.name,
+      color: row.color,
+      total: Number(row.total),
+      completed: Number(row.completed),
+      inProgress: Number(row.inProgress),
+      pending: Number(row.pending),
+    }));
+  }
+
+  private async assertNameAvailable(name: string, userId: string, exceptId?: string) {
+    const query = this.tagsRepository
+      .createQueryBuilder('tag')
+      .where('tag.userId = :userId', { userId })
+      .andWhere('LOWER(tag.name) = LOWER(:name)', { name });
+
+    if (exceptId) {
+      query.andWhere('tag.id <> :exceptId', { exceptId });
+    }
+
+    if (await query.getExists()) {
+      throw new ConflictException(`Tag "${name}" already exists`);
+    }
+  }
+}
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_PROJECT_MEMBERS_KEY = 'allowProjectMembers';
+
+// Marks task routes that members of the task's project may use, not only its owner
+export const AllowProjectMembers = () => SetMetadata(ALLOW_PROJECT_MEMBERS_KEY, true);
@@ -1,7 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsEnum, IsUUID } from 'class-validator';
 import { BatchAction } from '../../../common/enums/batch-action.enum';
 
 export class BatchProcessDto {
+  @ApiProperty({ example: ['123e4567-e89b-12d3-a456-426614174000'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
   tasks: string[];
+
+  @ApiProperty({ enum: BatchAction, example: BatchAction.COMPLETE })
+  @IsEnum(BatchAction)
   action: BatchAction;
 }
 
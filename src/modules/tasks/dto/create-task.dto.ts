@@ -1,4 +1,14 @@
-import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
@@ -29,8 +39,54 @@ export class CreateTaskDto {
   @IsOptional()
   dueDate?: Date;
 
-  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Owner of the task; defaults to the caller. Only admins may assign other users',
+  })
   @IsUUID()
-  @IsNotEmpty()
-  userId: string;
+  @IsOptional()
+  userId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Parent task when creating a subtask',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description:
+      "Project of the task; the owner then defaults to the project's default assignee and must be a member",
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: "Tags of the task owner; on update the list replaces the task's tags",
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  tagIds?: string[];
+
+  @ApiProperty({
+    example: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+    required: false,
+    description:
+      'iCalendar RRULE making this a recurring task. The series starts at dueDate (or now)',
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  recurrenceRule?: string;
 } 
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { TaskFilterDto } from './task-filter.dto';
+import { Task } from '../entities/task.entity';
+
+// Results are ordered by relevance, so sorting and cursors do not apply
+export class SearchTasksDto extends OmitType(TaskFilterDto, [
+  'search',
+  'sort',
+  'sortBy',
+  'sortOrder',
+  'cursor',
+] as const) {
+  @ApiProperty({
+    example: 'api documentation -draft',
+    description: 'Web-search style query: quoted phrases, "or", and "-" to exclude words',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+}
+
+export interface TaskSearchHit {
+  task: Task;
+  rank: number;
+  // HTML-escaped fragments with the matches wrapped in <mark> tags
+  highlights: {
+    title: string;
+    description: string;
+  };
+}
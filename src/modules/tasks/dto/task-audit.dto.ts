@@ -0,0 +1,73 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { PaginationQueryDto } from '../../../common/dto/pagination-query.dto';
+import { AUDITED_TASK_FIELDS, AuditedTaskField } from '../entities/task-audit-log.entity';
+import { TaskAuditAction } from '../enums/task-audit-action.enum';
+import { AuditSource } from '../enums/audit-source.enum';
+
+// Audit records are listed newest first, so sorting and cursors do not apply
+export class TaskHistoryQueryDto extends PickType(PaginationQueryDto, ['page', 'limit'] as const) {}
+
+export class TaskAuditFilterDto extends TaskHistoryQueryDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', required: false })
+  @IsOptional()
+  @IsUUID()
+  taskId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'User who made the change',
+  })
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @ApiProperty({ enum: TaskAuditAction, required: false })
+  @IsOptional()
+  @IsEnum(TaskAuditAction)
+  action?: TaskAuditAction;
+
+  @ApiProperty({ enum: AuditSource, required: false })
+  @IsOptional()
+  @IsEnum(AuditSource)
+  source?: AuditSource;
+
+  @ApiProperty({
+    enum: AUDITED_TASK_FIELDS,
+    required: false,
+    example: 'status',
+    description: 'Only records that changed this field',
+  })
+  @IsOptional()
+  @IsIn(AUDITED_TASK_FIELDS)
+  field?: AuditedTaskField;
+
+  @ApiProperty({
+    required: false,
+    example: 'COMPLETED',
+    description: 'With `field`: only changes that set the field to this value',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  value?: string;
+
+  @ApiProperty({ example: '2023-01-01T00:00:00Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  changedFrom?: string;
+
+  @ApiProperty({ example: '2023-12-31T23:59:59Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  changedTo?: string;
+}
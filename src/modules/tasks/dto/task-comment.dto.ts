@@ -0,0 +1,24 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateTaskCommentDto {
+  @ApiProperty({
+    example: 'Blocked on the API review, @jane@example.com can you take a look?',
+    description: 'Comment text; `@email` and `@name` mentions notify the mentioned users',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Comment to reply to; replies to a reply join the same thread',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+}
+
+export class UpdateTaskCommentDto extends PickType(CreateTaskCommentDto, ['body'] as const) {}
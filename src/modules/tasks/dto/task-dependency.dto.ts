@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export class AddTaskDependencyDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Task that has to be completed before this task can start',
+  })
+  @IsUUID()
+  blockerId: string;
+}
+
+export interface TaskDependencyNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  userId: string;
+}
+
+export interface TaskDependencyEdge {
+  blockerId: string;
+  blockedId: string;
+}
+
+// Everything upstream (transitive blockers) and downstream (transitively blocked) of a task
+export interface TaskDependencyGraph {
+  taskId: string;
+  isBlocked: boolean;
+  nodes: TaskDependencyNode[];
+  edges: TaskDependencyEdge[];
+}
@@ -1,11 +1,142 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
+import { PaginationQueryDto } from '../../../common/dto/pagination-query.dto';
 
-// TODO: Implement task filtering DTO
-// This DTO should be used to filter tasks by status, priority, etc.
-export class TaskFilterDto {
-  // TODO: Add properties for filtering tasks
-  // Example: status, priority, userId, search query, date ranges, etc.
-  // Add appropriate decorators for validation and Swagger documentation
-} 
\ No newline at end of file
+// Accepts both `?status=A,B` and `?status=A&status=B`
+const toArray = (value: unknown): unknown =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean)
+    : value;
+
+// Query strings arrive as text, so 'false' must not be coerced to true
+const toBoolean = (value: unknown): unknown => {
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return value;
+};
+
+export class TaskFilterDto extends PaginationQueryDto {
+  @ApiProperty({
+    enum: TaskStatus,
+    isArray: true,
+    required: false,
+    example: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
+    description: 'Comma separated or repeated list of statuses',
+  })
+  @Transform(({ obj, key }) => toArray(obj[key]))
+  @IsOptional()
+  @IsArray()
+  @IsEnum(TaskStatus, { each: true })
+  status?: TaskStatus[];
+
+  @ApiProperty({
+    enum: TaskPriority,
+    isArray: true,
+    required: false,
+    example: [TaskPriority.HIGH],
+    description: 'Comma separated or repeated list of priorities',
+  })
+  @Transform(({ obj, key }) => toArray(obj[key]))
+  @IsOptional()
+  @IsArray()
+  @IsEnum(TaskPriority, { each: true })
+  priority?: TaskPriority[];
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Only tasks assigned to this user',
+  })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Only tasks of this project',
+  })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiProperty({ example: '2023-01-01T00:00:00Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  dueDateFrom?: string;
+
+  @ApiProperty({ example: '2023-12-31T23:59:59Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  dueDateTo?: string;
+
+  @ApiProperty({ example: '2023-01-01T00:00:00Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiProperty({ example: '2023-12-31T23:59:59Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Only tasks past their due date that are not completed',
+  })
+  @Transform(({ obj, key }) => toBoolean(obj[key]))
+  @IsOptional()
+  @IsBoolean()
+  overdue?: boolean;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'Comma separated or repeated list of tag IDs',
+  })
+  @Transform(({ obj, key }) => toArray(obj[key]))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    enum: ['any', 'all'],
+    required: false,
+    default: 'any',
+    description: 'Whether tasks need any or all of the given tags',
+  })
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  tagMatch?: 'any' | 'all';
+
+  @ApiProperty({
+    example: 'documentation',
+    required: false,
+    description: 'Case-insensitive match against title and description',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID, ValidateIf } from 'class-validator';
+import { Task } from '../entities/task.entity';
+
+export class MoveTaskDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+    description: 'New parent task; null turns the task into a top-level task',
+  })
+  @ValidateIf((_object, value) => value !== null)
+  @IsUUID()
+  parentId: string | null;
+}
+
+export interface TaskRollup {
+  childrenCount: number;
+  completedChildrenCount: number;
+  completionPercentage: number;
+}
+
+export type TaskTreeNode = Omit<Task, 'children' | 'parent'> & {
+  rollup: TaskRollup;
+  children: TaskTreeNode[];
+};
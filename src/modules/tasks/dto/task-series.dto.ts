@@ -0,0 +1,21 @@
+import { ApiProperty, PartialType, PickType } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { CreateTaskDto } from './create-task.dto';
+import { SeriesScope } from '../enums/series-scope.enum';
+
+export class TaskSeriesScopeDto {
+  @ApiProperty({
+    enum: SeriesScope,
+    required: false,
+    default: SeriesScope.THIS,
+    description: 'Which occurrences of the series the change applies to',
+  })
+  @IsEnum(SeriesScope)
+  @IsOptional()
+  scope: SeriesScope = SeriesScope.THIS;
+}
+
+// Status and due date belong to a single occurrence and are edited through PATCH /tasks/:id
+export class UpdateTaskSeriesDto extends PartialType(
+  PickType(CreateTaskDto, ['title', 'description', 'priority', 'recurrenceRule'] as const),
+) {}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class PurgeTrashDto {
+  @ApiProperty({
+    example: '2023-12-31T23:59:59Z',
+    required: false,
+    description: 'Only purge tasks trashed before this time; defaults to the whole trash',
+  })
+  @IsOptional()
+  @IsDateString()
+  before?: string;
+}
@@ -0,0 +1,86 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { TaskFilterDto } from '../task-filter.dto';
+import { TaskStatus } from '../../enums/task-status.enum';
+import { TaskPriority } from '../../enums/task-priority.enum';
+
+const toDto = (query: Record<string, unknown>) =>
+  plainToInstance(TaskFilterDto, query, { enableImplicitConversion: true });
+
+describe('TaskFilterDto Validation', () => {
+  it('should apply default pagination when no query is given', async () => {
+    const dto = toDto({});
+
+    const errors = await validate(dto);
+    expect(errors.length).toBe(0);
+    expect(dto.page).toBe(1);
+    expect(dto.limit).toBe(10);
+  });
+
+  it('should split comma separated statuses and priorities', async () => {
+    const dto = toDto({ status: 'PENDING,IN_PROGRESS', priority: 'HIGH' });
+
+    const errors = await validate(dto);
+    expect(errors.length).toBe(0);
+    expect(dto.status).toEqual([TaskStatus.PENDING, TaskStatus.IN_PROGRESS]);
+    expect(dto.priority).toEqual([TaskPriority.HIGH]);
+  });
+
+  it('should accept repeated status parameters', async () => {
+    const dto = toDto({ status: ['PENDING', 'COMPLETED'] });
+
+    const errors = await validate(dto);
+    expect(errors.length).toBe(0);
+    expect(dto.status).toEqual([TaskStatus.PENDING, TaskStatus.COMPLETED]);
+  });
+
+  it('should split comma separated tag ids', async () => {
+    const dto = toDto({
+      tags: '123e4567-e89b-12d3-a456-426614174000,223e4567-e89b-12d3-a456-426614174000',
+      tagMatch: 'all',
+    });
+
+    const errors = await validate(dto);
+    expect(errors.length).toBe(0);
+    expect(dto.tags).toHaveLength(2);
+  });
+
+  it('should fail validation for an unknown tag match mode', async () => {
+    const dto = toDto({ tags: '123e4567-e89b-12d3-a456-426614174000', tagMatch: 'some' });
+
+    const errors = await validate(dto);
+    expect(errors.some(error => error.property === 'tagMatch')).toBe(true);
+  });
+
+  it('should fail validation for an unknown status', async () => {
+    const dto = toDto({ status: 'PENDING,ARCHIVED' });
+
+    const errors = await validate(dto);
+    expect(errors.length).toBe(1);
+    expect(errors[0].property).toBe('status');
+    expect(errors[0].constraints).toHaveProperty('isEnum');
+  });
+
+  it('should parse the overdue flag from query strings', async () => {
+    expect(toDto({ overdue: 'true' }).overdue).toBe(true);
+    expect(toDto({ overdue: 'false' }).overdue).toBe(false);
+  });
+
+  it('should fail validation for malformed dates and assignee', async () => {
+    const dto = toDto({ dueDateFrom: 'yesterday', userId: 'not-a-uuid' });
+
+    const errors = await validate(dto);
+    const fields = errors.map(e => e.property);
+    expect(fields).toContain('dueDateFrom');
+    expect(fields).toContain('userId');
+  });
+
+  it('should fail validation if limit exceeds the maximum', async () => {
+    const dto = toDto({ limit: '500' });
+
+    const errors = await validate(dto);
+    expect(errors.length).toBe(1);
+    expect(errors[0].property).toBe('limit');
+    expect(errors[0].constraints).toHaveProperty('max');
+  });
+});
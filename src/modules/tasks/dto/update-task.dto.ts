@@ -1,4 +1,9 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreateTaskDto } from './create-task.dto';
 
-export class UpdateTaskDto extends PartialType(CreateTaskDto) {} 
\ No newline at end of file
+// Re-parenting goes through PATCH /tasks/:id/parent so cycles can be checked,
+// and schedules through PATCH /tasks/:id/series so the whole series stays consistent.
+// Tasks stay in the project they were created in
+export class UpdateTaskDto extends PartialType(
+  OmitType(CreateTaskDto, ['parentId', 'recurrenceRule', 'projectId'] as const),
+) {}
@@ -0,0 +1,55 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { TaskAuditAction } from '../enums/task-audit-action.enum';
+import { AuditSource } from '../enums/audit-source.enum';
+
+// Task fields whose before/after values are recorded; tags are tracked as `tagIds`
+export const AUDITED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'userId',
+  'parentId',
+  'projectId',
+  'tagIds',
+  'deletedAt',
+] as const;
+
+export type AuditedTaskField = (typeof AUDITED_TASK_FIELDS)[number];
+
+// Dates are stored as ISO strings and tags as a sorted list of ids
+export type TaskAuditValue = string | string[] | null;
+
+export type TaskFieldChanges = Partial<
+  Record<AuditedTaskField, { from: TaskAuditValue; to: TaskAuditValue }>
+>;
+
+// Append-only; no foreign keys so the history outlives deleted tasks and users
+@Entity('task_audit_logs')
+@Index('IDX_task_audit_logs_task_id', ['taskId', 'createdAt'])
+@Index('IDX_task_audit_logs_actor_id', ['actorId', 'createdAt'])
+@Index('IDX_task_audit_logs_created_at', ['createdAt'])
+export class TaskAuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  action: TaskAuditAction;
+
+  // Null for system changes (queue jobs and cron)
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  source: AuditSource;
+
+  @Column({ type: 'jsonb' })
+  changes: TaskFieldChanges;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,67 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Task } from './task.entity';
+import { User } from '../../users/entities/user.entity';
+
+export interface TaskCommentRevision {
+  body: string;
+  editedAt: string;
+}
+
+@Entity('task_comments')
+@Index('IDX_task_comments_task_id', ['taskId', 'createdAt'])
+@Index('IDX_task_comments_parent_id', ['parentId'])
+export class TaskComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task?: Task;
+
+  @Column({ name: 'author_id', type: 'uuid' })
+  authorId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'author_id' })
+  author?: User;
+
+  // Threads are one level deep: replies always point at a top-level comment
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => TaskComment, comment => comment.replies, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_id' })
+  parent?: TaskComment | null;
+
+  @OneToMany(() => TaskComment, comment => comment.parent)
+  replies?: TaskComment[];
+
+  @Column({ type: 'text' })
+  body: string;
+
+  // Previous bodies, oldest first
+  @Column({ name: 'edit_history', type: 'jsonb', default: () => "'[]'" })
+  editHistory: TaskCommentRevision[];
+
+  @Column({ name: 'edited_at', type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
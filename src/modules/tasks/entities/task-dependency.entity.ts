@@ -0,0 +1,36 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Task } from './task.entity';
+
+// "blocker blocks blocked": the blocked task cannot start until the blocker is completed
+@Entity('task_dependencies')
+@Index('UQ_task_dependencies_pair', ['blockerId', 'blockedId'], { unique: true })
+@Index('IDX_task_dependencies_blocked_id', ['blockedId'])
+export class TaskDependency {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'blocker_id', type: 'uuid' })
+  blockerId: string;
+
+  @Column({ name: 'blocked_id', type: 'uuid' })
+  blockedId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocker_id' })
+  blocker?: Task;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocked_id' })
+  blocked?: Task;
+}
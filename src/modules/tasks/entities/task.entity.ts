@@ -1,17 +1,32 @@
 import {
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   Entity,
+  Index,
   JoinColumn,
+  JoinTable,
+  ManyToMany,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
+  VersionColumn,
 } from 'typeorm';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
 import { User } from '../../users/entities/user.entity';
+import { Tag } from '../../tags/entities/tag.entity';
+import { Project } from '../../projects/entities/project.entity';
 
 @Entity('tasks')
+@Index('IDX_tasks_parent_id', ['parentId'])
+@Index('IDX_tasks_project_id', ['projectId'])
+@Index('IDX_tasks_deleted_at', ['deletedAt'])
+@Index('UQ_tasks_series_due_date', ['seriesId', 'dueDate'], {
+  unique: true,
+  where: '"deleted_at" IS NULL',
+})
 export class Task {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -46,9 +61,63 @@ export class Task {
   @JoinColumn({ name: 'user_id' })
   user: any;
 
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne(() => Project, project => project.tasks, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'project_id' })
+  project?: Project | null;
+
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => Task, task => task.children, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_id' })
+  parent?: Task | null;
+
+  @OneToMany(() => Task, task => task.parent)
+  children?: Task[];
+
+  @ManyToMany(() => Tag, tag => tag.tasks)
+  @JoinTable({
+    name: 'task_tags',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'tag_id', referencedColumnName: 'id' },
+  })
+  tags?: Tag[];
+
+  // Occurrences of one recurring task share a series id
+  @Column({ name: 'series_id', type: 'uuid', nullable: true })
+  seriesId: string | null;
+
+  // iCalendar DTSTART + RRULE, anchored at the first occurrence of the series
+  @Column({ name: 'recurrence_rule', type: 'text', nullable: true })
+  recurrenceRule: string | null;
+
+  // Maintained by Postgres for full-text search; the GIN index lives in a migration
+  @Index('IDX_tasks_search_vector', { synchronize: false })
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')`,
+  })
+  searchVector?: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  // Bumped by every update; exposed as the ETag for optimistic concurrency control
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  // Set while the task is in the trash; TypeORM hides such rows unless asked withDeleted
+  @DeleteDateColumn({ name: 'deleted_at' })
+  deletedAt: Date | null;
 }
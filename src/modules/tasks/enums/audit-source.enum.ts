@@ -0,0 +1,8 @@
+// Where a task mutation came from
+export enum AuditSource {
+  API = 'api',
+  TASK_PROCESSOR = 'task-processor',
+  OVERDUE_CRON = 'overdue-cron',
+  TRASH_RETENTION = 'trash-retention',
+  RECURRENCE = 'recurrence',
+}
@@ -0,0 +1,5 @@
+export enum SeriesScope {
+  THIS = 'this',
+  FOLLOWING = 'following',
+  ALL = 'all',
+}
@@ -0,0 +1,7 @@
+export enum TaskAuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  TRASH = 'trash',
+  RESTORE = 'restore',
+  DELETE = 'delete',
+}
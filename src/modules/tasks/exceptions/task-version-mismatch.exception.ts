@@ -0,0 +1,9 @@
+import { PreconditionFailedException } from '@nestjs/common';
+import { Task } from '../entities/task.entity';
+
+// Thrown when a write was based on an outdated version of the task
+export class TaskVersionMismatchException extends PreconditionFailedException {
+  constructor(readonly current: Task) {
+    super('Task has been modified since it was last read');
+  }
+}
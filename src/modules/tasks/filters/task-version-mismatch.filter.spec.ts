@@ -0,0 +1,48 @@
+import { ArgumentsHost } from '@nestjs/common';
+import { TaskVersionMismatchFilter } from './task-version-mismatch.filter';
+import { TaskVersionMismatchException } from '../exceptions/task-version-mismatch.exception';
+import { Task } from '../entities/task.entity';
+
+describe('TaskVersionMismatchFilter', () => {
+  const current = {
+    id: 'task-id',
+    title: 'Write docs',
+    version: 3,
+    userId: 'owner-id',
+    user: { id: 'owner-id', email: 'owner@example.com', password: '$2b$10$hash' },
+  } as unknown as Task;
+
+  const response = {
+    status: jest.fn().mockReturnThis(),
+    setHeader: jest.fn().mockReturnThis(),
+    json: jest.fn(),
+  };
+  const host = {
+    switchToHttp: () => ({
+      getResponse: () => response,
+      getRequest: () => ({ url: '/tasks/task-id' }),
+    }),
+  } as unknown as ArgumentsHost;
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should answer with the current task and its ETag', () => {
+    new TaskVersionMismatchFilter().catch(new TaskVersionMismatchException(current), host);
+
+    expect(response.status).toHaveBeenCalledWith(412);
+    expect(response.setHeader).toHaveBeenCalledWith('ETag', '"3"');
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        current: expect.objectContaining({ id: 'task-id', version: 3, userId: 'owner-id' }),
+      }),
+    );
+  });
+
+  it('should leave out the owner, password hash included', () => {
+    new TaskVersionMismatchFilter().catch(new TaskVersionMismatchException(current), host);
+
+    const body = response.json.mock.calls[0][0];
+    expect(body.current).not.toHaveProperty('user');
+    expect(JSON.stringify(body)).not.toContain('$2b$10$hash');
+  });
+});
@@ -0,0 +1,26 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { TaskVersionMismatchException } from '../exceptions/task-version-mismatch.exception';
+import { taskEtag } from '../utils/etag.util';
+
+// Answers a stale write with the current task, so the client can merge and retry
+@Catch(TaskVersionMismatchException)
+export class TaskVersionMismatchFilter implements ExceptionFilter {
+  catch(exception: TaskVersionMismatchException, host: ArgumentsHost) {
+    const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+    const request = ctx.getRequest<Request>();
+    const status = exception.getStatus();
+    // Nothing serializes this body, so the eager owner (and their password hash) is left out
+    const { user: _owner, ...current } = exception.current;
+
+    response.status(status).setHeader('ETag', taskEtag(exception.current.version)).json({
+      success: false,
+      statusCode: status,
+      message: exception.message,
+      path: request.url,
+      timestamp: new Date().toISOString(),
+      current,
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import { ExecutionContext, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { TaskOwnershipGuard } from './task-ownership.guard';
+import { TasksService } from '../tasks.service';
+import { AllowProjectMembers } from '../decorators/allow-project-members.decorator';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+const taskId = '660e8400-e29b-41d4-a716-446655440000';
+const owner = { id: 'owner-id', email: 'owner@example.com', name: 'Owner', role: UserRole.USER };
+const stranger = { id: 'other-id', email: 'other@example.com', name: 'Other', role: UserRole.USER };
+const admin = { id: 'admin-id', email: 'admin@example.com', name: 'Admin', role: UserRole.ADMIN };
+
+class TasksController {
+  update() {}
+
+  @AllowProjectMembers()
+  findOne() {}
+}
+
+const createContext = (
+  user: unknown,
+  params: Record<string, string> = { id: taskId },
+  handler: keyof TasksController = 'update',
+) =>
+  ({
+    switchToHttp: () => ({
+      getRequest: () => ({ user, params }),
+    }),
+    getClass: () => TasksController,
+    getHandler: () => TasksController.prototype[handler],
+  }) as unknown as ExecutionContext;
+
+describe('TaskOwnershipGuard', () => {
+  let guard: TaskOwnershipGuard;
+  let tasksService: jest.Mocked<Pick<TasksService, 'findOwnerId' | 'isInMemberProject'>>;
+
+  beforeEach(() => {
+    tasksService = {
+      findOwnerId: jest.fn().mockResolvedValue(owner.id),
+      isInMemberProject: jest.fn().mockResolvedValue(false),
+    };
+    guard = new TaskOwnershipGuard(tasksService as unknown as TasksService, new Reflector());
+  });
+
+  it('should allow the owner of the task', async () => {
+    await expect(guard.canActivate(createContext(owner))).resolves.toBe(true);
+    expect(tasksService.findOwnerId).toHaveBeenCalledWith(taskId);
+  });
+
+  it('should hide tasks owned by someone else', async () => {
+    await expect(guard.canActivate(createContext(stranger))).rejects.toThrow(NotFoundException);
+  });
+
+  it("should let members of the task's project use routes open to them", async () => {
+    tasksService.isInMemberProject.mockResolvedValue(true);
+
+    await expect(guard.canActivate(createContext(stranger, undefined, 'findOne'))).resolves.toBe(
+      true,
+    );
+    expect(tasksService.isInMemberProject).toHaveBeenCalledWith(taskId, stranger.id);
+  });
+
+  it('should keep project members to those routes', async () => {
+    tasksService.isInMemberProject.mockResolvedValue(true);
+
+    await expect(guard.canActivate(createContext(stranger))).rejects.toThrow(NotFoundException);
+  });
+
+  it("should hide tasks outside the caller's projects on those routes too", async () => {
+    await expect(guard.canActivate(createContext(stranger, undefined, 'findOne'))).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should report missing tasks as not found', async () => {
+    tasksService.findOwnerId.mockResolvedValue(null);
+
+    await expect(guard.canActivate(createContext(owner))).rejects.toThrow(NotFoundException);
+  });
+
+  it('should let admins through without a lookup', async () => {
+    await expect(guard.canActivate(createContext(admin))).resolves.toBe(true);
+    expect(tasksService.findOwnerId).not.toHaveBeenCalled();
+  });
+
+  it('should skip routes without a task id', async () => {
+    await expect(guard.canActivate(createContext(stranger, {}))).resolves.toBe(true);
+    expect(tasksService.findOwnerId).not.toHaveBeenCalled();
+  });
+});
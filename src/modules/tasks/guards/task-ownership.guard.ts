@@ -0,0 +1,63 @@
+import { CanActivate, ExecutionContext, Injectable, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { isUUID } from 'class-validator';
+import { TasksService } from '../tasks.service';
+import { ALLOW_PROJECT_MEMBERS_KEY } from '../decorators/allow-project-members.decorator';
+import { canAccessAllTasks, canAccessTask } from '../policies/task-access.policy';
+import { AuthenticatedUser } from '../../../common/interfaces/authenticated-user.interface';
+
+/**
+ * Restricts routes with a task `:id` param to the task's owner or an admin;
+ * routes marked with @AllowProjectMembers also admit members of the task's
+ * project, who see its tasks in the project listing. Routes without the
+ * param pass through; their queries are scoped in the service instead.
+ * Foreign tasks are reported as missing so their existence is not disclosed.
+ */
+@Injectable()
+export class TaskOwnershipGuard implements CanActivate {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const user: AuthenticatedUser | undefined = request.user;
+    const taskId: string | undefined = request.params?.id;
+
+    if (!taskId || !isUUID(taskId)) {
+      // Malformed ids are rejected by ParseUUIDPipe with a 400
+      return true;
+    }
+
+    if (!user) {
+      return false;
+    }
+
+    if (canAccessAllTasks(user)) {
+      return true;
+    }
+
+    const ownerId = await this.tasksService.findOwnerId(taskId);
+    if (ownerId && canAccessTask(user, ownerId)) {
+      return true;
+    }
+
+    if (
+      ownerId &&
+      this.allowsProjectMembers(context) &&
+      (await this.tasksService.isInMemberProject(taskId, user.id))
+    ) {
+      return true;
+    }
+
+    throw new NotFoundException('Task not found');
+  }
+
+  private allowsProjectMembers(context: ExecutionContext): boolean {
+    return !!this.reflector.getAllAndOverride<boolean>(ALLOW_PROJECT_MEMBERS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+  }
+}
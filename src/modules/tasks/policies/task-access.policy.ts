@@ -0,0 +1,32 @@
+import { ForbiddenException } from '@nestjs/common';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { AuthenticatedUser } from '../../../common/interfaces/authenticated-user.interface';
+
+export function canAccessAllTasks(user: AuthenticatedUser): boolean {
+  return user.role === UserRole.ADMIN;
+}
+
+export function canAccessTask(user: AuthenticatedUser, ownerId: string): boolean {
+  return canAccessAllTasks(user) || user.id === ownerId;
+}
+
+/**
+ * Owner restriction to apply to task queries: undefined for admins (no
+ * restriction), otherwise the caller's own id.
+ */
+export function taskOwnerScope(user: AuthenticatedUser): string | undefined {
+  return canAccessAllTasks(user) ? undefined : user.id;
+}
+
+// Admins may create tasks for anyone; everyone else only for themselves
+export function resolveTaskOwner(user: AuthenticatedUser, requestedUserId?: string): string {
+  if (!requestedUserId || requestedUserId === user.id) {
+    return user.id;
+  }
+
+  if (!canAccessAllTasks(user)) {
+    throw new ForbiddenException('You can only create tasks for yourself');
+  }
+
+  return requestedUserId;
+}
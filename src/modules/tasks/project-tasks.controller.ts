@@ -0,0 +1,65 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TasksService } from './tasks.service';
+import { TaskFilterDto } from './dto/task-filter.dto';
+import { ProjectsService } from '../projects/projects.service';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { EmailVerificationGuard } from '../auth/guards/email-verification.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+// Task views scoped to a project; every member sees all of the project's tasks and can
+// open them through the routes marked with @AllowProjectMembers
+@ApiTags('projects')
+@Controller('projects')
+@UseGuards(JwtAuthGuard, EmailVerificationGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class ProjectTasksController {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly projectsService: ProjectsService,
+  ) {}
+
+  @Get(':id/tasks')
+  @ApiOperation({ summary: 'List the tasks of a project with optional filtering' })
+  async findTasks(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() filter: TaskFilterDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.projectsService.findOne(id, user);
+    const projectFilter = { ...filter, projectId: id };
+
+    if (filter.cursor !== undefined) {
+      const { items, nextCursor, prevCursor } =
+        await this.tasksService.findAllByCursor(projectFilter);
+
+      return {
+        data: items,
+        count: items.length,
+        nextCursor,
+        prevCursor,
+      };
+    }
+
+    const { tasks, total, pages } = await this.tasksService.findAll(projectFilter);
+
+    return {
+      data: tasks,
+      count: tasks.length,
+      total,
+      total_pages: pages,
+      page: filter.page,
+    };
+  }
+
+  @Get(':id/stats')
+  @ApiOperation({ summary: 'Get task statistics for a project' })
+  async getStats(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    await this.projectsService.findOne(id, user);
+    return this.tasksService.getTaskStatisticsBuiltIn({ projectId: id });
+  }
+}
@@ -0,0 +1,34 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskAuditService } from './task-audit.service';
+import { TaskAuditFilterDto } from './dto/task-audit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+
+@ApiTags('audit')
+@Controller('audit')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@Roles(UserRole.ADMIN)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskAuditController {
+  constructor(private readonly taskAuditService: TaskAuditService) {}
+
+  @Get('tasks')
+  @ApiOperation({ summary: 'Query the audit trail of all tasks (admin only)' })
+  async findAll(@Query() filter: TaskAuditFilterDto) {
+    const { entries, total, pages } = await this.taskAuditService.findAll(filter);
+
+    return {
+      data: entries,
+      count: entries.length,
+      total,
+      total_pages: pages,
+      page: filter.page,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { BadRequestException } from '@nestjs/common';
+import { EntityManager, Repository } from 'typeorm';
+import { TaskAuditService } from './task-audit.service';
+import { TaskAuditLog } from './entities/task-audit-log.entity';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskPriority } from './enums/task-priority.enum';
+import { TaskAuditAction } from './enums/task-audit-action.enum';
+import { AuditSource } from './enums/audit-source.enum';
+
+const context = { actorId: 'actor-id', source: AuditSource.API };
+
+const task = {
+  id: 'task-id',
+  title: 'Write release notes',
+  description: null,
+  status: TaskStatus.PENDING,
+  priority: TaskPriority.MEDIUM,
+  dueDate: new Date('2026-03-01T09:00:00Z'),
+  userId: 'owner-id',
+  parentId: null,
+  projectId: null,
+  tags: [{ id: 'tag-b' }, { id: 'tag-a' }],
+} as unknown as Task;
+
+describe('TaskAuditService', () => {
+  let service: TaskAuditService;
+  let manager: { insert: jest.Mock };
+  let queryBuilder: { andWhere: jest.Mock };
+
+  beforeEach(() => {
+    manager = { insert: jest.fn() };
+    queryBuilder = { andWhere: jest.fn().mockReturnThis() };
+    const auditRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue({
+        orderBy: jest.fn().mockReturnThis(),
+        addOrderBy: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        offset: jest.fn().mockReturnThis(),
+        andWhere: queryBuilder.andWhere,
+        getManyAndCount: jest.fn().mockResolvedValue([[], 0]),
+      }),
+    };
+    service = new TaskAuditService(auditRepository as unknown as Repository<TaskAuditLog>);
+  });
+
+  describe('recordChanges', () => {
+    it('should record only the fields that changed', async () => {
+      await service.recordChanges(
+        manager as unknown as EntityManager,
+        [
+          {
+            taskId: 'task-id',
+            before: task,
+            after: {
+              status: TaskStatus.COMPLETED,
+              title: task.title,
+              dueDate: '2026-03-01T09:00:00.000Z' as unknown as Date,
+            },
+          },
+        ],
+        context,
+      );
+
+      expect(manager.insert).toHaveBeenCalledWith(TaskAuditLog, [
+        {
+          taskId: 'task-id',
+          action: TaskAuditAction.UPDATE,
+          changes: { status: { from: TaskStatus.PENDING, to: TaskStatus.COMPLETED } },
+          actorId: 'actor-id',
+          source: AuditSource.API,
+        },
+      ]);
+    });
+
+    it('should skip changes without any effect', async () => {
+      await service.recordChanges(
+        manager as unknown as EntityManager,
+        [{ taskId: 'task-id', before: { tagIds: ['a', 'b'] }, after: { tagIds: ['b', 'a'] } }],
+        context,
+      );
+
+      expect(manager.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordDeleted', () => {
+    it('should keep the last values of the task', async () => {
+      await service.recordDeleted(manager as unknown as EntityManager, [task], {
+        actorId: null,
+        source: AuditSource.TASK_PROCESSOR,
+      });
+
+      const [[, [entry]]] = manager.insert.mock.calls;
+      expect(entry.action).toBe(TaskAuditAction.DELETE);
+      expect(entry.changes.dueDate).toEqual({ from: '2026-03-01T09:00:00.000Z', to: null });
+      expect(entry.changes.tagIds).toEqual({ from: ['tag-a', 'tag-b'], to: null });
+      expect(entry.changes.parentId).toBeUndefined();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should match changes that set a field to a value', async () => {
+      await service.findAll({ field: 'status', value: TaskStatus.COMPLETED });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('entry.changes ? :field', {
+        field: 'status',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        `entry.changes -> :field ->> 'to' = :value`,
+        { value: TaskStatus.COMPLETED },
+      );
+    });
+
+    it('should require a field when filtering by value', async () => {
+      await expect(service.findAll({ value: TaskStatus.COMPLETED })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  AUDITED_TASK_FIELDS,
+  AuditedTaskField,
+  TaskAuditLog,
+  TaskAuditValue,
+  TaskFieldChanges,
+} from './entities/task-audit-log.entity';
+import { Task } from './entities/task.entity';
+import { TaskAuditAction } from './enums/task-audit-action.enum';
+import { AuditSource } from './enums/audit-source.enum';
+import { TaskAuditFilterDto, TaskHistoryQueryDto } from './dto/task-audit.dto';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+// Who is behind a mutation; actorId is null for queue jobs and cron runs
+export interface AuditContext {
+  actorId: string | null;
+  source: AuditSource;
+}
+
+export const apiAuditContext = (user: AuthenticatedUser): AuditContext => ({
+  actorId: user.id,
+  source: AuditSource.API,
+});
+
+// Task fields (or tag ids) as they were before and after a change
+export type AuditedTaskValues = Partial<Pick<Task, Exclude<AuditedTaskField, 'tagIds'>>> & {
+  tagIds?: string[];
+};
+
+export interface TaskChange {
+  taskId: string;
+  before: AuditedTaskValues;
+  after: AuditedTaskValues;
+}
+
+@Injectable()
+export class TaskAuditService {
+  constructor(
+    @InjectRepository(TaskAuditLog)
+    private auditRepository: Repository<TaskAuditLog>,
+  ) {}
+
+  async recordCreated(manager: EntityManager, tasks: Task[], context: AuditContext): Promise<void> {
+    await this.insert(
+      manager,
+      tasks.map(task => ({
+        taskId: task.id,
+        action: TaskAuditAction.CREATE,
+        changes: this.diff({}, this.valuesOf(task)),
+      })),
+      context,
+    );
+  }
+
+  // Only fields present in `after` are compared; changes without any effect are skipped
+  async recordChanges(
+    manager: EntityManager,
+    changes: TaskChange[],
+    context: AuditContext,
+  ): Promise<void> {
+    await this.insert(
+      manager,
+      changes
+        .map(({ taskId, before, after }) => ({
+          taskId,
+          action: TaskAuditAction.UPDATE,
+          changes: this.diff(before, after),
+        }))
+        .filter(entry => Object.keys(entry.changes).length > 0),
+      context,
+    );
+  }
+
+  // Moving tasks to the trash (or back) only changes `deletedAt`
+  async recordTrashed(
+    manager: EntityManager,
+    taskIds: string[],
+    deletedAt: Date,
+    context: AuditContext,
+  ): Promise<void> {
+    await this.insert(
+      manager,
+      taskIds.map(taskId => ({
+        taskId,
+        action: TaskAuditAction.TRASH,
+        changes: this.diff({ deletedAt: null }, { deletedAt }),
+      })),
+      context,
+    );
+  }
+
+  async recordRestored(
+    manager: EntityManager,
+    taskIds: string[],
+    deletedAt: Date,
+    context: AuditContext,
+  ): Promise<void> {
+    await this.insert(
+      manager,
+      taskIds.map(taskId => ({
+        taskId,
+        action: TaskAuditAction.RESTORE,
+        changes: this.diff({ deletedAt }, { deletedAt: null }),
+      })),
+      context,
+    );
+  }
+
+  async recordDeleted(manager: EntityManager, tasks: Task[], context: AuditContext): Promise<void> {
+    await this.insert(
+      manager,
+      tasks.map(task => {
+        const values = this.valuesOf(task);
+        const cleared = Object.fromEntries(Object.keys(values).map(field => [field, null]));
+
+        return {
+          taskId: task.id,
+          action: TaskAuditAction.DELETE,
+          changes: this.diff(values, cleared),
+        };
+      }),
+      context,
+    );
+  }
+
+  async findHistory(
+    taskId: string,
+    query: TaskHistoryQueryDto,
+  ): Promise<{ entries: TaskAuditLog[]; total: number; pages: number }> {
+    return this.findAll({ ...query, taskId });
+  }
+
+  async findAll(
+    filter: TaskAuditFilterDto,
+  ): Promise<{ entries: TaskAuditLog[]; total: number; pages: number }> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 10;
+
+    if (filter.value !== undefined && !filter.field) {
+      throw new BadRequestException('Filtering by value requires a field');
+    }
+    if (
+      filter.changedFrom &&
+      filter.changedTo &&
+      new Date(filter.changedFrom) > new Date(filter.changedTo)
+    ) {
+      throw new BadRequestException('Invalid changed range: start must not be after end');
+    }
+
+    const queryBuilder = this.auditRepository
+      .createQueryBuilder('entry')
+      .orderBy('entry.createdAt', 'DESC')
+      .addOrderBy('entry.id', 'DESC')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    if (filter.taskId) {
+      queryBuilder.andWhere('entry.taskId = :taskId', { taskId: filter.taskId });
+    }
+    if (filter.actorId) {
+      queryBuilder.andWhere('entry.actorId = :actorId', { actorId: filter.actorId });
+    }
+    if (filter.action) {
+      queryBuilder.andWhere('entry.action = :action', { action: filter.action });
+    }
+    if (filter.source) {
+      queryBuilder.andWhere('entry.source = :source', { source: filter.source });
+    }
+    if (filter.field) {
+      // `field` is validated against AUDITED_TASK_FIELDS, the value is bound
+      queryBuilder.andWhere('entry.changes ? :field', { field: filter.field });
+      if (filter.value !== undefined) {
+        queryBuilder.andWhere(`entry.changes -> :field ->> 'to' = :value`, {
+          value: filter.value,
+        });
+      }
+    }
+    if (filter.changedFrom) {
+      queryBuilder.andWhere('entry.createdAt >= :changedFrom', {
+        changedFrom: new Date(filter.changedFrom),
+      });
+    }
+    if (filter.changedTo) {
+      queryBuilder.andWhere('entry.createdAt <= :changedTo', {
+        changedTo: new Date(filter.changedTo),
+      });
+    }
+
+    const [entries, total] = await queryBuilder.getManyAndCount();
+    return { entries, total, pages: Math.ceil(total / limit) };
+  }
+
+  private async insert(
+    manager: EntityManager,
+    entries: Pick<TaskAuditLog, 'taskId' | 'action' | 'changes'>[],
+    context: AuditContext,
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await manager.insert(
+      TaskAuditLog,
+      entries.map(entry => ({ ...entry, actorId: context.actorId, source: context.source })),
+    );
+  }
+
+  private valuesOf(task: Task): AuditedTaskValues {
+    return {
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate,
+      userId: task.userId,
+      parentId: task.parentId,
+      projectId: task.projectId,
+      deletedAt: task.deletedAt,
+      ...(task.tags ? { tagIds: task.tags.map(tag => tag.id) } : {}),
+    };
+  }
+
+  private diff(before: AuditedTaskValues, after: AuditedTaskValues): TaskFieldChanges {
+    const changes: TaskFieldChanges = {};
+
+    AUDITED_TASK_FIELDS.forEach(field => {
+      if (!(field in after)) {
+        return;
+      }
+
+      const from = this.normalize(field, before[field]);
+      const to = this.normalize(field, after[field]);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    });
+
+    return changes;
+  }
+
+  // Dates as ISO strings and tag ids in a stable order, so equal values compare equal
+  private normalize(field: AuditedTaskField, value: unknown): TaskAuditValue {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (field === 'dueDate' || field === 'deletedAt') {
+      return new Date(value as string | Date).toISOString();
+    }
+    if (field === 'tagIds') {
+      return [...(value as string[])].sort();
+    }
+    return String(value);
+  }
+}
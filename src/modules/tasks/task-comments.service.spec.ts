@@ -0,0 +1,174 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { Brackets, Repository } from 'typeorm';
+import { TaskCommentsService } from './task-comments.service';
+import { TaskComment } from './entities/task-comment.entity';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { PlanTier } from '../../common/enums/plan-tier.enum';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+const author: AuthenticatedUser = {
+  id: 'author-id',
+  email: 'author@example.com',
+  name: 'Author',
+  role: UserRole.USER,
+  plan: PlanTier.FREE,
+  emailVerified: true,
+  twoFactorEnabled: false,
+};
+
+const comment = (overrides: Partial<TaskComment> = {}) =>
+  ({
+    id: 'comment-id',
+    taskId: 'task-id',
+    authorId: author.id,
+    parentId: null,
+    body: 'First draft',
+    editHistory: [],
+    editedAt: null,
+    ...overrides,
+  }) as TaskComment;
+
+describe('TaskCommentsService', () => {
+  let service: TaskCommentsService;
+  let commentQuery: { where: jest.Mock; andWhere: jest.Mock; getOne: jest.Mock };
+  let userQuery: { andWhere: jest.Mock; getMany: jest.Mock };
+  let taskQueue: { add: jest.Mock };
+
+  const commentsRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(),
+    manager: { exists: jest.fn(), createQueryBuilder: jest.fn() },
+  };
+
+  // Lets the fire-and-forget mention notification settle
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    commentQuery = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(comment()),
+    };
+    commentsRepository.createQueryBuilder.mockReturnValue({
+      leftJoin: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnValue(commentQuery),
+    });
+
+    userQuery = { andWhere: jest.fn().mockReturnThis(), getMany: jest.fn().mockResolvedValue([]) };
+    commentsRepository.manager.createQueryBuilder.mockReturnValue({
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: userQuery.andWhere,
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: userQuery.getMany,
+    });
+    commentsRepository.manager.exists.mockResolvedValue(true);
+    commentsRepository.create.mockImplementation(data => data);
+    commentsRepository.save.mockImplementation(data =>
+      Promise.resolve({ id: 'comment-id', ...data }),
+    );
+
+    taskQueue = { add: jest.fn().mockResolvedValue(undefined) };
+    service = new TaskCommentsService(
+      commentsRepository as unknown as Repository<TaskComment>,
+      taskQueue as unknown as Queue,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should attach replies to a reply to the top-level comment', async () => {
+      commentsRepository.findOne.mockResolvedValue({ id: 'reply-id', parentId: 'root-id' });
+
+      await service.create('task-id', { body: 'Agreed', parentId: 'reply-id' }, author);
+
+      expect(commentsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ parentId: 'root-id' }),
+      );
+    });
+
+    it('should reject replies to comments of another task', async () => {
+      commentsRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create('task-id', { body: 'Agreed', parentId: 'other-id' }, author),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should queue a notification for mentioned users other than the author', async () => {
+      userQuery.getMany.mockResolvedValue([{ id: 'jane-id' }, { id: author.id }]);
+
+      await service.create('task-id', { body: '@jane@example.com please review' }, author);
+      await flushPromises();
+
+      expect(taskQueue.add).toHaveBeenCalledWith(
+        'notify-comment-mentions',
+        expect.objectContaining({ commentId: 'comment-id', userIds: ['jane-id'] }),
+        expect.any(Object),
+      );
+    });
+
+    it('should only look up mentions among the people who can see the task', async () => {
+      await service.create('task-id', { body: '@jane@example.com please review' }, author);
+      await flushPromises();
+
+      expect(userQuery.andWhere).toHaveBeenCalledWith(expect.any(Brackets));
+    });
+  });
+
+  describe('update', () => {
+    it('should keep the previous body in the edit history', async () => {
+      await service.update('task-id', 'comment-id', { body: 'Second draft' }, author);
+
+      expect(commentsRepository.update).toHaveBeenCalledWith(
+        { id: 'comment-id' },
+        expect.objectContaining({
+          body: 'Second draft',
+          editHistory: [{ body: 'First draft', editedAt: expect.any(String) }],
+        }),
+      );
+    });
+
+    it('should only let the author edit', async () => {
+      await expect(
+        service.update(
+          'task-id',
+          'comment-id',
+          { body: 'Hijacked' },
+          { ...author, id: 'other-id' },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not notify users that were already mentioned', async () => {
+      commentQuery.getOne.mockResolvedValue(comment({ body: '@jane@example.com fyi' }));
+      userQuery.getMany.mockResolvedValue([{ id: 'jane-id' }]);
+
+      await service.update('task-id', 'comment-id', { body: '@jane@example.com ping' }, author);
+      await flushPromises();
+
+      expect(taskQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should let admins delete any comment', async () => {
+      await service.remove('task-id', 'comment-id', {
+        ...author,
+        id: 'admin-id',
+        role: UserRole.ADMIN,
+      });
+
+      expect(commentsRepository.delete).toHaveBeenCalledWith({ id: 'comment-id' });
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Brackets, Repository } from 'typeorm';
+import { TaskComment } from './entities/task-comment.entity';
+import { Task } from './entities/task.entity';
+import { CreateTaskCommentDto, UpdateTaskCommentDto } from './dto/task-comment.dto';
+import { parseMentions } from './utils/mention.util';
+import { User } from '../users/entities/user.entity';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+// Keeps a single comment from fanning out to the whole user base
+const MAX_MENTIONS_PER_COMMENT = 20;
+
+@Injectable()
+export class TaskCommentsService {
+  private readonly logger = new Logger(TaskCommentsService.name);
+
+  constructor(
+    @InjectRepository(TaskComment)
+    private commentsRepository: Repository<TaskComment>,
+    @InjectQueue('task-processing')
+    private taskQueue: Queue,
+  ) {}
+
+  // Top-level comments oldest first, each with its replies
+  async findAll(
+    taskId: string,
+    pagination: PaginationQueryDto,
+  ): Promise<{ comments: TaskComment[]; total: number; pages: number }> {
+    const page = pagination.page ?? 1;
+    const limit = pagination.limit ?? 10;
+
+    await this.assertTaskExists(taskId);
+
+    // The author join is to-one, so plain LIMIT/OFFSET is safe
+    const [comments, total] = await this.createCommentQuery()
+      .where('comment.taskId = :taskId', { taskId })
+      .andWhere('comment.parentId IS NULL')
+      .orderBy('comment.createdAt', 'ASC')
+      .addOrderBy('comment.id', 'ASC')
+      .limit(limit)
+      .offset((page - 1) * limit)
+      .getManyAndCount();
+
+    const replies = comments.length
+      ? await this.createCommentQuery()
+          .where('comment.parentId IN (:...parentIds)', {
+            parentIds: comments.map(comment => comment.id),
+          })
+          .orderBy('comment.createdAt', 'ASC')
+          .addOrderBy('comment.id', 'ASC')
+          .getMany()
+      : [];
+
+    comments.forEach(comment => {
+      comment.replies = replies.filter(reply => reply.parentId === comment.id);
+    });
+
+    return { comments, total, pages: Math.ceil(total / limit) };
+  }
+
+  async create(
+    taskId: string,
+    createTaskCommentDto: CreateTaskCommentDto,
+    user: AuthenticatedUser,
+  ): Promise<TaskComment> {
+    await this.assertTaskExists(taskId);
+
+    // Replying to a reply continues the thread of its top-level comment
+    let parentId: string | null = null;
+    if (createTaskCommentDto.parentId) {
+      const parent = await this.commentsRepository.findOne({
+        where: { id: createTaskCommentDto.parentId, taskId },
+        select: ['id', 'parentId'],
+      });
+      if (!parent) {
+        throw new NotFoundException('Parent comment not found');
+      }
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const comment = await this.commentsRepository.save(
+      this.commentsRepository.create({
+        taskId,
+        parentId,
+        authorId: user.id,
+        body: createTaskCommentDto.body,
+      }),
+    );
+
+    this.notifyMentions(comment, createTaskCommentDto.body);
+
+    return this.findOne(taskId, comment.id);
+  }
+
+  async update(
+    taskId: string,
+    commentId: string,
+    updateTaskCommentDto: UpdateTaskCommentDto,
+    user: AuthenticatedUser,
+  ): Promise<TaskComment> {
+    const comment = await this.findOne(taskId, commentId);
+
+    if (comment.authorId !== user.id) {
+      throw new ForbiddenException('Only the author can edit a comment');
+    }
+    if (comment.body === updateTaskCommentDto.body) {
+      return comment;
+    }
+
+    const previousBody = comment.body;
+    const editedAt = new Date();
+
+    await this.commentsRepository.update(
+      { id: commentId },
+      {
+        body: updateTaskCommentDto.body,
+        editHistory: [
+          ...comment.editHistory,
+          { body: previousBody, editedAt: editedAt.toISOString() },
+        ],
+        editedAt,
+      },
+    );
+
+    // Users mentioned before the edit have already been notified
+    this.notifyMentions(comment, updateTaskCommentDto.body, previousBody);
+
+    return this.findOne(taskId, commentId);
+  }
+
+  // Deleting a top-level comment removes its replies with it
+  async remove(taskId: string, commentId: string, user: AuthenticatedUser): Promise<void> {
+    const comment = await this.findOne(taskId, commentId);
+
+    if (comment.authorId !== user.id && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only the author can delete a comment');
+    }
+
+    await this.commentsRepository.delete({ id: commentId });
+  }
+
+  private async findOne(taskId: string, commentId: string): Promise<TaskComment> {
+    const comment = await this.createCommentQuery()
+      .where('comment.id = :commentId', { commentId })
+      .andWhere('comment.taskId = :taskId', { taskId })
+      .getOne();
+
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    return comment;
+  }
+
+  private createCommentQuery() {
+    return this.commentsRepository
+      .createQueryBuilder('comment')
+      .leftJoin('comment.author', 'author')
+      .addSelect(['author.id', 'author.name', 'author.email']);
+  }
+
+  // Admins bypass the ownership guard, so the task may not exist at all
+  private async assertTaskExists(taskId: string): Promise<void> {
+    const exists = await this.commentsRepository.manager.exists(Task, { where: { id: taskId } });
+    if (!exists) {
+      throw new NotFoundException('Task not found');
+    }
+  }
+
+  private notifyMentions(comment: TaskComment, body: string, previousBody?: string): void {
+    this.queueMentionNotification(comment, body, previousBody).catch(error =>
+      this.logger.error('Failed to queue mention notification:', error),
+    );
+  }
+
+  private async queueMentionNotification(
+    comment: TaskComment,
+    body: string,
+    previousBody?: string,
+  ): Promise<void> {
+    const alreadyMentioned = previousBody
+      ? new Set(await this.resolveMentionedUserIds(comment.taskId, previousBody))
+      : new Set<string>();
+    const userIds = (await this.resolveMentionedUserIds(comment.taskId, body)).filter(
+      userId => userId !== comment.authorId && !alreadyMentioned.has(userId),
+    );
+
+    if (userIds.length === 0) {
+      return;
+    }
+
+    await this.taskQueue.add(
+      'notify-comment-mentions',
+      {
+        commentId: comment.id,
+        taskId: comment.taskId,
+        authorId: comment.authorId,
+        userIds,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+  }
+
+  // Only people who can see the task can be mentioned: its owner and the members of its project
+  private async resolveMentionedUserIds(taskId: string, body: string): Promise<string[]> {
+    const { emails, handles } = parseMentions(body);
+    if (emails.length === 0 && handles.length === 0) {
+      return [];
+    }
+
+    const users = await this.commentsRepository.manager
+      .createQueryBuilder(User, 'user')
+      .select('user.id')
+      .where(
+        new Brackets(qb => {
+          if (emails.length) {
+            qb.orWhere('LOWER(user.email) IN (:...emails)', { emails });
+          }
+          if (handles.length) {
+            qb.orWhere("LOWER(REPLACE(user.name, ' ', '')) IN (:...handles)", { handles });
+          }
+        }),
+      )
+      .andWhere(
+        new Brackets(qb => {
+          qb.where('user.id = (SELECT t.user_id FROM tasks t WHERE t.id = :taskId)', { taskId });
+          qb.orWhere(
+            'EXISTS (SELECT 1 FROM tasks t INNER JOIN project_members pm ON pm.project_id = t.project_id WHERE t.id = :taskId AND pm.user_id = user.id)',
+          );
+        }),
+      )
+      .orderBy('user.id')
+      .limit(MAX_MENTIONS_PER_COMMENT)
+      .getMany();
+
+    return users.map(user => user.id);
+  }
+}
@@ -0,0 +1,113 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { Task } from './entities/task.entity';
+
+describe('TaskDependenciesService', () => {
+  let service: TaskDependenciesService;
+  let manager: {
+    query: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let dataSource: { query: jest.Mock; manager: typeof manager; transaction: jest.Mock };
+
+  beforeEach(() => {
+    manager = {
+      query: jest.fn(),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      create: jest.fn((_entity, data) => data),
+      save: jest.fn(data => Promise.resolve({ id: 'dependency-id', ...data })),
+    };
+    dataSource = {
+      query: jest.fn(),
+      manager,
+      transaction: jest.fn(work => work(manager)),
+    };
+    service = new TaskDependenciesService(
+      {} as Repository<TaskDependency>,
+      {} as Repository<Task>,
+      dataSource as unknown as DataSource,
+    );
+  });
+
+  describe('addDependency', () => {
+    beforeEach(() => {
+      manager.find.mockResolvedValue([{ id: 'a' }, { id: 'b' }]);
+      manager.findOne.mockResolvedValue(null);
+    });
+
+    it('should link the blocker to the task', async () => {
+      manager.query.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+      const dependency = await service.addDependency('b', 'a');
+
+      expect(dependency).toEqual(expect.objectContaining({ blockerId: 'a', blockedId: 'b' }));
+    });
+
+    it('should reject a dependency that closes a cycle', async () => {
+      // advisory lock, then everything upstream of the blocker
+      manager.query.mockResolvedValueOnce([]).mockResolvedValueOnce([{ id: 'b' }]);
+
+      await expect(service.addDependency('b', 'a')).rejects.toThrow(ConflictException);
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a task blocking itself', async () => {
+      await expect(service.addDependency('a', 'a')).rejects.toThrow(BadRequestException);
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertUnblocked', () => {
+    it('should reject a task with an unfinished blocker', async () => {
+      manager.query.mockResolvedValue([{ blocked_id: 'b', blocker_id: 'a', user_id: 'owner' }]);
+
+      await expect(service.assertUnblocked(['b'])).rejects.toThrow(ConflictException);
+    });
+
+    it('should accept blockers that change together with the task', async () => {
+      manager.query.mockResolvedValue([{ blocked_id: 'b', blocker_id: 'a', user_id: 'owner' }]);
+
+      await expect(service.assertUnblocked(['a', 'b'])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findBlockedIds', () => {
+    it('should resolve chains inside the batch', async () => {
+      // a -> b -> c, with a in the batch and x outside it
+      manager.query.mockResolvedValue([
+        { blocked_id: 'b', blocker_id: 'a', user_id: 'owner' },
+        { blocked_id: 'c', blocker_id: 'b', user_id: 'owner' },
+        { blocked_id: 'd', blocker_id: 'x', user_id: 'owner' },
+      ]);
+
+      const blocked = await service.findBlockedIds(['a', 'b', 'c', 'd'], 'owner');
+
+      expect(Array.from(blocked)).toEqual(['d']);
+    });
+
+    it('should propagate blocks through the batch', async () => {
+      manager.query.mockResolvedValue([
+        { blocked_id: 'c', blocker_id: 'b', user_id: 'owner' },
+        { blocked_id: 'b', blocker_id: 'x', user_id: 'owner' },
+      ]);
+
+      const blocked = await service.findBlockedIds(['b', 'c'], 'owner');
+
+      expect(Array.from(blocked).sort()).toEqual(['b', 'c']);
+    });
+
+    it('should not count blockers owned by someone else as resolved', async () => {
+      manager.query.mockResolvedValue([{ blocked_id: 'b', blocker_id: 'a', user_id: 'stranger' }]);
+
+      const blocked = await service.findBlockedIds(['a', 'b'], 'owner');
+
+      expect(blocked.has('b')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskDependencyEdge, TaskDependencyGraph } from './dto/task-dependency.dto';
+
+// Serialises dependency changes so two concurrent links cannot close a cycle
+const DEPENDENCY_LOCK_KEY = 'tasks.dependencies';
+
+interface UnfinishedBlocker {
+  blockedId: string;
+  blockerId: string;
+  blockerUserId: string;
+}
+
+@Injectable()
+export class TaskDependenciesService {
+  private readonly logger = new Logger(TaskDependenciesService.name);
+
+  constructor(
+    @InjectRepository(TaskDependency)
+    private dependenciesRepository: Repository<TaskDependency>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private dataSource: DataSource,
+  ) {}
+
+  async addDependency(
+    taskId: string,
+    blockerId: string,
+    ownerId?: string,
+  ): Promise<TaskDependency> {
+    if (taskId === blockerId) {
+      throw new BadRequestException('A task cannot block itself');
+    }
+
+    return this.dataSource.transaction(async manager => {
+      await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [DEPENDENCY_LOCK_KEY]);
+
+      const scope = ownerId ? { userId: ownerId } : {};
+      const tasks = await manager.find(Task, {
+        where: { id: In([taskId, blockerId]), ...scope },
+        select: ['id'],
+      });
+      if (!tasks.some(task => task.id === taskId)) {
+        throw new NotFoundException('Task not found');
+      }
+      if (!tasks.some(task => task.id === blockerId)) {
+        throw new NotFoundException('Blocking task not found');
+      }
+
+      const existing = await manager.findOne(TaskDependency, {
+        where: { blockerId, blockedId: taskId },
+      });
+      if (existing) {
+        throw new ConflictException('Dependency already exists');
+      }
+
+      // The new edge closes a cycle if the blocker is already (transitively) waiting on the task
+      const upstream = await this.findUpstreamIds(blockerId, manager);
+      if (upstream.includes(taskId)) {
+        throw new ConflictException('Dependency would create a cycle');
+      }
+
+      const dependency = await manager.save(
+        manager.create(TaskDependency, { blockerId, blockedId: taskId }),
+      );
+      this.logger.log(`Task ${blockerId} now blocks task ${taskId}`);
+
+      return dependency;
+    });
+  }
+
+  async removeDependency(taskId: string, blockerId: string): Promise<void> {
+    const result = await this.dependenciesRepository.delete({ blockerId, blockedId: taskId });
+
+    if (result.affected === 0) {
+      throw new NotFoundException('Dependency not found');
+    }
+  }
+
+  async getGraph(taskId: string, ownerId?: string): Promise<TaskDependencyGraph> {
+    const scope = ownerId ? { userId: ownerId } : {};
+    const task = await this.tasksRepository.findOne({
+      where: { id: taskId, ...scope },
+      select: ['id'],
+    });
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+
+    const rows: { blocker_id: string; blocked_id: string }[] = await this.dataSource.query(
+      `
+      WITH RECURSIVE upstream AS (
+        SELECT blocker_id, blocked_id FROM task_dependencies WHERE blocked_id = $1
+        UNION
+        SELECT d.blocker_id, d.blocked_id
+        FROM task_dependencies d INNER JOIN upstream u ON d.blocked_id = u.blocker_id
+      ),
+      downstream AS (
+        SELECT blocker_id, blocked_id FROM task_dependencies WHERE blocker_id = $1
+        UNION
+        SELECT d.blocker_id, d.blocked_id
+        FROM task_dependencies d INNER JOIN downstream w ON d.blocker_id = w.blocked_id
+      )
+      SELECT blocker_id, blocked_id FROM upstream
+      UNION
+      SELECT blocker_id, blocked_id FROM downstream
+      `,
+      [taskId],
+    );
+
+    const ids = new Set<string>([taskId]);
+    rows.forEach(row => ids.add(row.blocker_id).add(row.blocked_id));
+
+    const tasks = await this.tasksRepository.find({
+      where: { id: In(Array.from(ids)), ...scope },
+      select: ['id', 'title', 'status', 'userId'],
+    });
+
+    // Tasks outside the caller's scope are left out, together with their edges
+    const visible = new Map(tasks.map(node => [node.id, node]));
+    const edges: TaskDependencyEdge[] = rows
+      .filter(row => visible.has(row.blocker_id) && visible.has(row.blocked_id))
+      .map(row => ({ blockerId: row.blocker_id, blockedId: row.blocked_id }));
+
+    const unfinished = await this.findUnfinishedBlockers([taskId]);
+
+    return {
+      taskId,
+      isBlocked: unfinished.length > 0,
+      nodes: tasks.map(({ id, title, status, userId }) => ({ id, title, status, userId })),
+      edges,
+    };
+  }
+
+  /**
+   * Throws when any of the tasks waits on an unfinished blocker. Blockers that
+   * are themselves among `taskIds` are treated as changing together with them.
+   */
+  async assertUnblocked(
+    taskIds: string[],
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<void> {
+    const batch = new Set(taskIds);
+    const blockers = (await this.findUnfinishedBlockers(taskIds, manager)).filter(
+      row => !batch.has(row.blockerId),
+    );
+
+    if (blockers.length > 0) {
+      const blockerIds = Array.from(new Set(blockers.map(row => row.blockerId)));
+      throw new ConflictException(
+        `Task is blocked by unfinished task(s): ${blockerIds.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Returns the ids among `taskIds` that cannot be completed yet. A blocker in
+   * the same batch only counts as finished if it can be completed itself and
+   * belongs to `ownerId`, so chains inside one batch resolve together.
+   */
+  async findBlockedIds(
+    taskIds: string[],
+    ownerId?: string,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<Set<string>> {
+    const blockers = await this.findUnfinishedBlockers(taskIds, manager);
+    const completable = new Set(taskIds);
+    const blocked = new Set<string>();
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const row of blockers) {
+        const resolvedInBatch =
+          completable.has(row.blockerId) && (!ownerId || row.blockerUserId === ownerId);
+
+        if (!resolvedInBatch && completable.has(row.blockedId)) {
+          completable.delete(row.blockedId);
+          blocked.add(row.blockedId);
+          changed = true;
+        }
+      }
+    }
+
+    return blocked;
+  }
+
+  // Subset of `taskIds` that block at least one other task
+  async findBlockingIds(taskIds: string[]): Promise<string[]> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const rows: { blocker_id: string }[] = await this.dataSource.query(
+      `SELECT DISTINCT blocker_id FROM task_dependencies WHERE blocker_id = ANY($1)`,
+      [taskIds],
+    );
+
+    return rows.map(row => row.blocker_id);
+  }
+
+  // Open tasks waiting on any of `blockerIds` whose blockers are now all completed
+  async findNewlyUnblockedTasks(blockerIds: string[]): Promise<Task[]> {
+    if (blockerIds.length === 0) {
+      return [];
+    }
+
+    const rows: { id: string }[] = await this.dataSource.query(
+      `
+      SELECT DISTINCT d.blocked_id AS id
+      FROM task_dependencies d
+      INNER JOIN tasks blocked ON blocked.id = d.blocked_id
+      WHERE d.blocker_id = ANY($1)
+        AND blocked.status <> $2
+        AND blocked.deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM task_dependencies other
+          INNER JOIN tasks blocker ON blocker.id = other.blocker_id
+          WHERE other.blocked_id = d.blocked_id
+            AND blocker.status <> $2
+            AND blocker.deleted_at IS NULL
+        )
+      `,
+      [blockerIds, TaskStatus.COMPLETED],
+    );
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return this.tasksRepository.find({ where: { id: In(rows.map(row => row.id)) } });
+  }
+
+  // Trashed blockers no longer hold anything up
+  private async findUnfinishedBlockers(
+    taskIds: string[],
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<UnfinishedBlocker[]> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const rows: { blocked_id: string; blocker_id: string; user_id: string }[] = await manager.query(
+      `
+      SELECT d.blocked_id, d.blocker_id, t.user_id
+      FROM task_dependencies d INNER JOIN tasks t ON t.id = d.blocker_id
+      WHERE d.blocked_id = ANY($1) AND t.status <> $2 AND t.deleted_at IS NULL
+      `,
+      [taskIds, TaskStatus.COMPLETED],
+    );
+
+    return rows.map(row => ({
+      blockedId: row.blocked_id,
+      blockerId: row.blocker_id,
+      blockerUserId: row.user_id,
+    }));
+  }
+
+  // UNION (not UNION ALL) stops the recursion even if bad data contains a loop
+  private async findUpstreamIds(id: string, manager: EntityManager): Promise<string[]> {
+    const rows: { id: string }[] = await manager.query(
+      `
+      WITH RECURSIVE upstream AS (
+        SELECT blocker_id AS id FROM task_dependencies WHERE blocked_id = $1
+        UNION
+        SELECT d.blocker_id FROM task_dependencies d INNER JOIN upstream u ON d.blocked_id = u.id
+      )
+      SELECT id FROM upstream
+      `,
+      [id],
+    );
+
+    return rows.map(row => row.id);
+  }
+}
@@ -0,0 +1,97 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { AuditContext, TaskAuditService } from './task-audit.service';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { AuditSource } from './enums/audit-source.enum';
+
+const task = (id: string, parentId: string | null, status = TaskStatus.PENDING) =>
+  ({ id, parentId, status, userId: 'owner-id' }) as Task;
+
+const audit: AuditContext = { actorId: 'owner-id', source: AuditSource.API };
+
+describe('TaskHierarchyService', () => {
+  let service: TaskHierarchyService;
+  let taskAuditService: { recordChanges: jest.Mock; recordTrashed: jest.Mock };
+  let tasksRepository: { find: jest.Mock; findOneOrFail: jest.Mock };
+  let manager: { query: jest.Mock; findOne: jest.Mock; update: jest.Mock };
+  let dataSource: { query: jest.Mock; manager: typeof manager; transaction: jest.Mock };
+
+  beforeEach(() => {
+    tasksRepository = { find: jest.fn(), findOneOrFail: jest.fn() };
+    manager = { query: jest.fn(), findOne: jest.fn(), update: jest.fn() };
+    dataSource = {
+      query: jest.fn(),
+      manager,
+      transaction: jest.fn(work => work(manager)),
+    };
+    taskAuditService = { recordChanges: jest.fn(), recordTrashed: jest.fn() };
+    service = new TaskHierarchyService(
+      tasksRepository as unknown as Repository<Task>,
+      dataSource as unknown as DataSource,
+      taskAuditService as unknown as TaskAuditService,
+    );
+  });
+
+  describe('getSubtree', () => {
+    it('should nest subtasks and roll up completion', async () => {
+      dataSource.query.mockResolvedValue([{ id: 'root' }, { id: 'a' }, { id: 'b' }, { id: 'a1' }]);
+      tasksRepository.find.mockResolvedValue([
+        task('root', null),
+        task('a', 'root', TaskStatus.COMPLETED),
+        task('b', 'root'),
+        task('a1', 'a', TaskStatus.COMPLETED),
+      ]);
+
+      const tree = await service.getSubtree('root');
+
+      expect(tree.children.map(child => child.id)).toEqual(['a', 'b']);
+      expect(tree.rollup).toEqual({
+        childrenCount: 2,
+        completedChildrenCount: 1,
+        completionPercentage: 50,
+      });
+      expect(tree.children[0].rollup.completionPercentage).toBe(100);
+      expect(tree.children[1].rollup.childrenCount).toBe(0);
+    });
+
+    it('should report a missing root as not found', async () => {
+      dataSource.query.mockResolvedValue([]);
+
+      await expect(service.getSubtree('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('move', () => {
+    it('should reject moving a task under one of its own subtasks', async () => {
+      manager.findOne.mockResolvedValueOnce(task('a', 'root')).mockResolvedValueOnce({ id: 'a1' });
+      manager.query
+        .mockResolvedValueOnce([]) // advisory lock
+        .mockResolvedValueOnce([{ id: 'a1' }, { id: 'a' }, { id: 'root' }]);
+
+      await expect(service.move('a', 'a1', audit)).rejects.toThrow(ConflictException);
+      expect(manager.update).not.toHaveBeenCalled();
+      expect(taskAuditService.recordChanges).not.toHaveBeenCalled();
+    });
+
+    it('should move a task to the top level', async () => {
+      manager.findOne.mockResolvedValue(task('a', 'root'));
+      tasksRepository.findOneOrFail.mockResolvedValue(task('a', null));
+
+      const moved = await service.move('a', null, audit);
+
+      expect(manager.update).toHaveBeenCalledWith(
+        Task,
+        { id: 'a' },
+        expect.objectContaining({ parentId: null }),
+      );
+      expect(taskAuditService.recordChanges).toHaveBeenCalledWith(
+        manager,
+        [{ taskId: 'a', before: { parentId: 'root' }, after: { parentId: null } }],
+        audit,
+      );
+      expect(moved.parentId).toBeNull();
+    });
+  });
+});
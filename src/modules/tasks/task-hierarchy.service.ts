@@ -0,0 +1,242 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskRollup, TaskTreeNode } from './dto/task-hierarchy.dto';
+import { AuditContext, TaskAuditService } from './task-audit.service';
+
+// Serialises re-parenting so two concurrent moves cannot close a cycle
+const HIERARCHY_LOCK_KEY = 'tasks.hierarchy';
+
+@Injectable()
+export class TaskHierarchyService {
+  private readonly logger = new Logger(TaskHierarchyService.name);
+
+  constructor(
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private dataSource: DataSource,
+    private taskAuditService: TaskAuditService,
+  ) {}
+
+  async getSubtree(id: string, ownerId?: string): Promise<TaskTreeNode> {
+    const ids = await this.findSubtreeIds([id]);
+    if (ids.length === 0) {
+      throw new NotFoundException('Task not found');
+    }
+
+    const tasks = await this.tasksRepository.find({
+      where: { id: In(ids), ...(ownerId ? { userId: ownerId } : {}) },
+      order: { createdAt: 'ASC' },
+    });
+
+    const nodes = new Map<string, TaskTreeNode>(
+      tasks.map(task => [
+        task.id,
+        { ...task, children: [], rollup: this.emptyRollup() } as TaskTreeNode,
+      ]),
+    );
+
+    // Tasks outside the caller's scope are dropped together with their subtrees
+    for (const node of nodes.values()) {
+      if (node.id !== id && node.parentId) {
+        nodes.get(node.parentId)?.children.push(node);
+      }
+    }
+
+    const root = nodes.get(id);
+    if (!root) {
+      throw new NotFoundException('Task not found');
+    }
+
+    this.computeRollups(root);
+    return root;
+  }
+
+  async move(
+    id: string,
+    parentId: string | null,
+    audit: AuditContext,
+    ownerId?: string,
+  ): Promise<Task> {
+    await this.dataSource.transaction(async manager => {
+      await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [HIERARCHY_LOCK_KEY]);
+
+      const task = await manager.findOne(Task, { where: { id }, select: ['id', 'parentId'] });
+      if (!task) {
+        throw new NotFoundException('Task not found');
+      }
+
+      if (parentId) {
+        await this.assertParentAssignable(parentId, ownerId, manager);
+
+        const ancestors = await this.findAncestorIds(parentId, manager);
+        if (ancestors.includes(id)) {
+          throw new ConflictException('A task cannot be moved under itself or one of its subtasks');
+        }
+      }
+
+      await manager.update(Task, { id }, { parentId, updatedAt: new Date() });
+      await this.taskAuditService.recordChanges(
+        manager,
+        [{ taskId: id, before: { parentId: task.parentId }, after: { parentId } }],
+        audit,
+      );
+    });
+
+    this.logger.log(`Task ${id} moved under ${parentId ?? 'root'}`);
+
+    return this.tasksRepository.findOneOrFail({ where: { id } });
+  }
+
+  async assertParentAssignable(
+    parentId: string,
+    ownerId?: string,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<void> {
+    const parent = await manager.findOne(Task, {
+      where: { id: parentId, ...(ownerId ? { userId: ownerId } : {}) },
+      select: ['id'],
+    });
+
+    if (!parent) {
+      throw new NotFoundException('Parent task not found');
+    }
+  }
+
+  /**
+   * Returns the ids among `taskIds` that still have unfinished descendants.
+   * Descendants that are themselves in `taskIds` are treated as about to be
+   * completed, so a whole subtree can be completed in one batch.
+   */
+  async findIdsWithOpenSubtasks(
+    taskIds: string[],
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<Set<string>> {
+    if (taskIds.length === 0) {
+      return new Set();
+    }
+
+    const rows: { root_id: string }[] = await manager.query(
+      `
+      WITH RECURSIVE descendants AS (
+        SELECT id, parent_id, status, deleted_at, parent_id AS root_id
+        FROM tasks WHERE parent_id = ANY($1)
+        UNION
+        SELECT t.id, t.parent_id, t.status, t.deleted_at, d.root_id
+        FROM tasks t INNER JOIN descendants d ON t.parent_id = d.id
+      )
+      SELECT DISTINCT root_id FROM descendants
+      WHERE status <> $2 AND deleted_at IS NULL AND NOT (id = ANY($1))
+      `,
+      [taskIds, TaskStatus.COMPLETED],
+    );
+
+    return new Set(rows.map(row => row.root_id));
+  }
+
+  async findOpenDescendantIds(
+    id: string,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<string[]> {
+    const rows: { id: string }[] = await manager.query(
+      `
+      WITH RECURSIVE descendants AS (
+        SELECT id, parent_id, status, deleted_at FROM tasks WHERE parent_id = $1
+        UNION
+        SELECT t.id, t.parent_id, t.status, t.deleted_at
+        FROM tasks t INNER JOIN descendants d ON t.parent_id = d.id
+      )
+      SELECT id FROM descendants WHERE status <> $2 AND deleted_at IS NULL
+      `,
+      [id, TaskStatus.COMPLETED],
+    );
+
+    return rows.map(row => row.id);
+  }
+
+  // The given tasks and all of their descendants. UNION (not UNION ALL)
+  // stops the recursion even if bad data contains a loop
+  async findSubtreeIds(ids: string[], manager?: EntityManager): Promise<string[]> {
+    const rows: { id: string }[] = await (manager ?? this.dataSource).query(
+      `
+      WITH RECURSIVE subtree AS (
+        SELECT id FROM tasks WHERE id = ANY($1)
+        UNION
+        SELECT t.id FROM tasks t INNER JOIN subtree s ON t.parent_id = s.id
+      )
+      SELECT id FROM subtree
+      `,
+      [ids],
+    );
+
+    return rows.map(row => row.id);
+  }
+
+  // Soft delete: the tasks and their subtasks stay restorable from the trash. They share
+  // a deletedAt, which is how restore finds what was trashed together. Returns the trashed ids
+  async trashSubtrees(
+    taskIds: string[],
+    manager: EntityManager,
+    audit: AuditContext,
+  ): Promise<string[]> {
+    const subtreeIds = await this.findSubtreeIds(taskIds, manager);
+    if (subtreeIds.length === 0) {
+      return [];
+    }
+    const deletedAt = new Date();
+
+    // Subtasks already in the trash keep their own deletedAt
+    const result = await manager
+      .createQueryBuilder()
+      .update(Task)
+      .set({ deletedAt })
+      .where('id IN (:...ids)', { ids: subtreeIds })
+      .andWhere('deleted_at IS NULL')
+      .returning(['id'])
+      .execute();
+    const trashedIds: string[] = result.raw.map((row: { id: string }) => row.id);
+
+    await this.taskAuditService.recordTrashed(manager, trashedIds, deletedAt, audit);
+
+    return trashedIds;
+  }
+
+  private async findAncestorIds(id: string, manager: EntityManager): Promise<string[]> {
+    const rows: { id: string }[] = await manager.query(
+      `
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id FROM tasks WHERE id = $1
+        UNION
+        SELECT t.id, t.parent_id FROM tasks t INNER JOIN ancestors a ON t.id = a.parent_id
+      )
+      SELECT id FROM ancestors
+      `,
+      [id],
+    );
+
+    return rows.map(row => row.id);
+  }
+
+  private computeRollups(node: TaskTreeNode): void {
+    node.children.forEach(child => this.computeRollups(child));
+
+    const childrenCount = node.children.length;
+    const completedChildrenCount = node.children.filter(
+      child => child.status === TaskStatus.COMPLETED,
+    ).length;
+
+    node.rollup = {
+      childrenCount,
+      completedChildrenCount,
+      completionPercentage: childrenCount
+        ? Math.round((completedChildrenCount / childrenCount) * 100)
+        : 0,
+    };
+  }
+
+  private emptyRollup(): TaskRollup {
+    return { childrenCount: 0, completedChildrenCount: 0, completionPercentage: 0 };
+  }
+}
@@ -0,0 +1,180 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { AuditContext, TaskAuditService } from './task-audit.service';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { SeriesScope } from './enums/series-scope.enum';
+import { AuditSource } from './enums/audit-source.enum';
+import { buildRecurrenceRule } from './utils/recurrence.util';
+
+const rule = buildRecurrenceRule('FREQ=WEEKLY;BYDAY=MO', new Date('2026-01-05T09:00:00Z'));
+
+const occurrence = (dueDate: string, status = TaskStatus.PENDING) =>
+  ({
+    id: 'task-id',
+    title: 'Water the plants',
+    status,
+    userId: 'owner-id',
+    parentId: null,
+    seriesId: 'series-id',
+    recurrenceRule: rule,
+    dueDate: new Date(dueDate),
+  }) as Task;
+
+const audit: AuditContext = { actorId: 'owner-id', source: AuditSource.API };
+
+describe('TaskRecurrenceService', () => {
+  let service: TaskRecurrenceService;
+  let insert: { values: jest.Mock; execute: jest.Mock };
+  let tasksRepository: { findOne: jest.Mock; find: jest.Mock };
+  let manager: {
+    find: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+    query: jest.Mock;
+    findOneOrFail: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let taskHierarchyService: { trashSubtrees: jest.Mock };
+  let taskAuditService: { recordCreated: jest.Mock; recordChanges: jest.Mock };
+
+  beforeEach(() => {
+    insert = {
+      values: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ identifiers: [{ id: 'next-id' }] }),
+    };
+    const queryBuilder = {
+      insert: jest.fn().mockReturnThis(),
+      into: jest.fn().mockReturnThis(),
+      values: insert.values,
+      orIgnore: jest.fn().mockReturnThis(),
+      execute: insert.execute,
+    };
+    tasksRepository = { findOne: jest.fn(), find: jest.fn() };
+    manager = {
+      find: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      query: jest.fn(),
+      findOneOrFail: jest.fn().mockResolvedValue({ id: 'next-id', tags: [] }),
+      createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+    };
+    taskHierarchyService = { trashSubtrees: jest.fn().mockResolvedValue([]) };
+    taskAuditService = { recordCreated: jest.fn(), recordChanges: jest.fn() };
+    service = new TaskRecurrenceService(
+      tasksRepository as unknown as Repository<Task>,
+      { transaction: jest.fn(work => work(manager)) } as unknown as DataSource,
+      taskHierarchyService as unknown as TaskHierarchyService,
+      taskAuditService as unknown as TaskAuditService,
+    );
+  });
+
+  describe('startSeries', () => {
+    it('should snap the due date to the first occurrence', () => {
+      const series = service.startSeries('FREQ=WEEKLY;BYDAY=MO', '2026-01-07T09:00:00Z');
+
+      expect(series.dueDate).toEqual(new Date('2026-01-12T09:00:00Z'));
+      expect(series.seriesId).toEqual(expect.any(String));
+      expect(series.recurrenceRule).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO');
+    });
+  });
+
+  describe('ensureNextOccurrence', () => {
+    const now = new Date('2026-01-07T12:00:00Z');
+
+    it('should wait while the latest occurrence is still upcoming', async () => {
+      tasksRepository.findOne.mockResolvedValue(occurrence('2026-01-12T09:00:00Z'));
+
+      await expect(service.ensureNextOccurrence('series-id', now)).resolves.toBeNull();
+      expect(insert.execute).not.toHaveBeenCalled();
+    });
+
+    it('should generate the next occurrence once the latest is completed', async () => {
+      tasksRepository.findOne.mockResolvedValueOnce(
+        occurrence('2026-01-12T09:00:00Z', TaskStatus.COMPLETED),
+      );
+
+      await service.ensureNextOccurrence('series-id', now);
+
+      expect(insert.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: TaskStatus.PENDING,
+          seriesId: 'series-id',
+          dueDate: new Date('2026-01-19T09:00:00Z'),
+        }),
+      );
+      expect(taskAuditService.recordCreated).toHaveBeenCalledWith(
+        manager,
+        [{ id: 'next-id', tags: [] }],
+        { actorId: null, source: AuditSource.RECURRENCE },
+      );
+    });
+
+    it('should not audit an occurrence that another run already generated', async () => {
+      tasksRepository.findOne.mockResolvedValueOnce(
+        occurrence('2026-01-12T09:00:00Z', TaskStatus.COMPLETED),
+      );
+      insert.execute.mockResolvedValue({ identifiers: [] });
+
+      await expect(service.ensureNextOccurrence('series-id', now)).resolves.toBeNull();
+      expect(taskAuditService.recordCreated).not.toHaveBeenCalled();
+    });
+
+    it('should roll past due dates forward past now', async () => {
+      tasksRepository.findOne.mockResolvedValueOnce(occurrence('2025-12-01T09:00:00Z'));
+
+      await service.ensureNextOccurrence('series-id', now);
+
+      expect(insert.values).toHaveBeenCalledWith(
+        expect.objectContaining({ dueDate: new Date('2026-01-12T09:00:00Z') }),
+      );
+    });
+  });
+
+  describe('updateSeries', () => {
+    it('should refuse to change the schedule of a single occurrence', async () => {
+      tasksRepository.findOne.mockResolvedValue(occurrence('2026-01-12T09:00:00Z'));
+
+      await expect(
+        service.updateSeries('task-id', { recurrenceRule: 'FREQ=DAILY' }, SeriesScope.THIS, audit),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should audit the changes to every occurrence in scope', async () => {
+      const current = occurrence('2026-01-12T09:00:00Z');
+      const later = { ...occurrence('2026-01-19T09:00:00Z'), id: 'later-id' };
+      tasksRepository.findOne.mockResolvedValue(current);
+      manager.find.mockResolvedValue([current, later]);
+
+      await service.updateSeries('task-id', { title: 'Water the garden' }, SeriesScope.ALL, audit);
+
+      expect(taskAuditService.recordChanges).toHaveBeenCalledWith(
+        manager,
+        [
+          { taskId: 'task-id', before: current, after: { title: 'Water the garden' } },
+          { taskId: 'later-id', before: later, after: { title: 'Water the garden' } },
+        ],
+        audit,
+      );
+    });
+  });
+
+  describe('removeSeries', () => {
+    it('should move the occurrences to the trash instead of deleting them', async () => {
+      tasksRepository.findOne.mockResolvedValue(occurrence('2026-01-12T09:00:00Z'));
+      manager.find.mockResolvedValue([{ id: 'task-id' }, { id: 'later-id' }]);
+
+      const result = await service.removeSeries('task-id', SeriesScope.FOLLOWING, audit);
+
+      expect(taskHierarchyService.trashSubtrees).toHaveBeenCalledWith(
+        ['task-id', 'later-id'],
+        manager,
+        audit,
+      );
+      expect(manager.delete).not.toHaveBeenCalled();
+      expect(result.deletedIds).toEqual(['task-id', 'later-id']);
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import {
+  DataSource,
+  EntityManager,
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThan,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+  Repository,
+} from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { SeriesScope } from './enums/series-scope.enum';
+import { AuditSource } from './enums/audit-source.enum';
+import { UpdateTaskSeriesDto } from './dto/task-series.dto';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { AuditContext, TaskAuditService } from './task-audit.service';
+import {
+  buildRecurrenceRule,
+  endRecurrenceBefore,
+  firstOccurrence,
+  nextOccurrence,
+  recurrenceStart,
+} from './utils/recurrence.util';
+
+// Occurrences are generated by the series itself, whoever triggered the rollover
+const RECURRENCE_AUDIT_CONTEXT: AuditContext = { actorId: null, source: AuditSource.RECURRENCE };
+
+@Injectable()
+export class TaskRecurrenceService {
+  private readonly logger = new Logger(TaskRecurrenceService.name);
+
+  constructor(
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private dataSource: DataSource,
+    private taskHierarchyService: TaskHierarchyService,
+    private taskAuditService: TaskAuditService,
+  ) {}
+
+  /**
+   * Resolves the series fields for a new recurring task. The first
+   * occurrence is the first date on or after `dueDate` (or now) that matches
+   * the rule, so the due date always lines up with the schedule.
+   */
+  startSeries(
+    rule: string,
+    dueDate?: Date | string,
+  ): Pick<Task, 'seriesId' | 'recurrenceRule' | 'dueDate'> {
+    const recurrenceRule = buildRecurrenceRule(rule, dueDate ? new Date(dueDate) : new Date());
+    const first = firstOccurrence(recurrenceRule);
+
+    if (!first) {
+      throw new BadRequestException('Recurrence rule does not produce any occurrence');
+    }
+
+    return { seriesId: randomUUID(), recurrenceRule, dueDate: first };
+  }
+
+  // Makes sure every series touched by the completed tasks has its next occurrence
+  async rollForward(completedTaskIds: string[]): Promise<void> {
+    if (completedTaskIds.length === 0) {
+      return;
+    }
+
+    const tasks = await this.tasksRepository.find({
+      where: { id: In(completedTaskIds), seriesId: Not(IsNull()) },
+      select: ['id', 'seriesId'],
+    });
+
+    const seriesIds = new Set(tasks.map(task => task.seriesId!));
+    for (const seriesId of seriesIds) {
+      await this.ensureNextOccurrence(seriesId);
+    }
+  }
+
+  /**
+   * Generates the next occurrence of a series once its latest occurrence is
+   * completed or past due. The due date rolls forward past `now`, so a chore
+   * completed late does not spawn occurrences that are already overdue.
+   */
+  async ensureNextOccurrence(seriesId: string, now = new Date()): Promise<Task | null> {
+    const latest = await this.tasksRepository.findOne({
+      where: { seriesId },
+      order: { dueDate: 'DESC' },
+    });
+
+    if (!latest || (latest.status !== TaskStatus.COMPLETED && latest.dueDate > now)) {
+      return null;
+    }
+
+    return this.createNextOccurrence(latest, latest.dueDate > now ? latest.dueDate : now);
+  }
+
+  // Series whose latest occurrence is completed or past due, oldest first
+  async findSeriesDueForRollover(now = new Date(), limit = 100): Promise<string[]> {
+    const rows: { series_id: string }[] = await this.dataSource.query(
+      `
+      SELECT series_id FROM (
+        SELECT DISTINCT ON (series_id) series_id, due_date, status
+        FROM tasks
+        WHERE series_id IS NOT NULL AND recurrence_rule IS NOT NULL AND deleted_at IS NULL
+        ORDER BY series_id, due_date DESC
+      ) latest
+      WHERE latest.due_date <= $1 OR latest.status = $2
+      ORDER BY latest.due_date ASC
+      LIMIT $3
+      `,
+      [now, TaskStatus.COMPLETED, limit],
+    );
+
+    return rows.map(row => row.series_id);
+  }
+
+  async updateSeries(
+    id: string,
+    updateTaskSeriesDto: UpdateTaskSeriesDto,
+    scope: SeriesScope,
+    audit: AuditContext,
+  ): Promise<Task[]> {
+    const task = await this.findOccurrence(id);
+    const { recurrenceRule, ...fields } = updateTaskSeriesDto;
+
+    if (recurrenceRule !== undefined && scope === SeriesScope.THIS) {
+      throw new BadRequestException(
+        'The schedule of a single occurrence cannot change; use scope=following or scope=all',
+      );
+    }
+
+    let seriesId = task.seriesId!;
+    const updatedIds = await this.dataSource.transaction(async manager => {
+      const changes: Partial<Task> = { ...this.definedFields(fields) };
+
+      if (recurrenceRule !== undefined && scope === SeriesScope.FOLLOWING) {
+        // Split: this occurrence starts a new series, the earlier ones end before it
+        seriesId = randomUUID();
+        changes.seriesId = seriesId;
+        changes.recurrenceRule = buildRecurrenceRule(recurrenceRule, task.dueDate);
+
+        await manager.update(
+          Task,
+          { seriesId: task.seriesId!, dueDate: LessThan(task.dueDate) },
+          { recurrenceRule: endRecurrenceBefore(task.recurrenceRule!, task.dueDate) },
+        );
+        await this.removeOpenOccurrencesAfter(task, manager, audit);
+      } else if (recurrenceRule !== undefined) {
+        changes.recurrenceRule = buildRecurrenceRule(
+          recurrenceRule,
+          recurrenceStart(task.recurrenceRule!),
+        );
+      }
+
+      const targets = await manager.find(Task, {
+        where: this.scopeWhere(task, scope),
+        loadEagerRelations: false,
+      });
+      const ids = targets.map(target => target.id);
+
+      if (ids.length > 0 && Object.keys(changes).length > 0) {
+        await manager.update(Task, { id: In(ids) }, { ...changes, updatedAt: new Date() });
+        await this.taskAuditService.recordChanges(
+          manager,
+          targets.map(target => ({ taskId: target.id, before: target, after: changes })),
+          audit,
+        );
+      }
+
+      return ids;
+    });
+
+    if (recurrenceRule !== undefined) {
+      await this.ensureNextOccurrence(seriesId);
+    }
+
+    this.logger.log(`Updated ${updatedIds.length} occurrence(s) of series ${seriesId} (${scope})`);
+
+    return this.tasksRepository.find({
+      where: { id: In(updatedIds) },
+      order: { dueDate: 'ASC' },
+    });
+  }
+
+  async removeSeries(
+    id: string,
+    scope: SeriesScope,
+    audit: AuditContext,
+  ): Promise<{ message: string; deletedIds: string[] }> {
+    const task = await this.findOccurrence(id);
+
+    const deletedIds = await this.dataSource.transaction(async manager => {
+      const targets = await manager.find(Task, {
+        where: this.scopeWhere(task, scope),
+        select: ['id'],
+      });
+      const ids = targets.map(target => target.id);
+
+      if (scope === SeriesScope.FOLLOWING) {
+        // Earlier occurrences stay, but the series must not grow back
+        await manager.update(
+          Task,
+          { seriesId: task.seriesId!, dueDate: LessThan(task.dueDate) },
+          { recurrenceRule: endRecurrenceBefore(task.recurrenceRule!, task.dueDate) },
+        );
+      }
+
+      // Into the trash, like a single task; subtasks of the occurrences go with them
+      await this.taskHierarchyService.trashSubtrees(ids, manager, audit);
+
+      return ids;
+    });
+
+    if (scope === SeriesScope.THIS) {
+      await this.skipOccurrence(task);
+    }
+
+    this.logger.log(
+      `Moved ${deletedIds.length} occurrence(s) of series ${task.seriesId} to trash (${scope})`,
+    );
+
+    return {
+      message: `Moved ${deletedIds.length} occurrence(s) to trash`,
+      deletedIds,
+    };
+  }
+
+  // Skipping the latest occurrence must not stop the series, nor bring the same date back
+  private async skipOccurrence(skipped: Task): Promise<void> {
+    const later = await this.tasksRepository.count({
+      where: { seriesId: skipped.seriesId!, dueDate: MoreThan(skipped.dueDate) },
+    });
+    if (later > 0) {
+      return;
+    }
+
+    const now = new Date();
+    await this.createNextOccurrence(skipped, skipped.dueDate > now ? skipped.dueDate : now);
+  }
+
+  private async createNextOccurrence(template: Task, after: Date): Promise<Task | null> {
+    const dueDate = nextOccurrence(template.recurrenceRule!, after);
+    if (!dueDate) {
+      return null;
+    }
+
+    const created = await this.dataSource.transaction(async manager => {
+      // The unique (series_id, due_date) index turns concurrent generation into a no-op
+      const result = await manager
+        .createQueryBuilder()
+        .insert()
+        .into(Task)
+        .values({
+          title: template.title,
+          description: template.description,
+          priority: template.priority,
+          status: TaskStatus.PENDING,
+          userId: template.userId,
+          parentId: template.parentId,
+          projectId: template.projectId,
+          seriesId: template.seriesId,
+          recurrenceRule: template.recurrenceRule,
+          dueDate,
+        })
+        .orIgnore()
+        .execute();
+
+      const createdId = result.identifiers[0]?.id;
+      if (!createdId) {
+        return null;
+      }
+
+      // Occurrences carry over the tags of the one they follow
+      await manager.query(
+        'INSERT INTO task_tags (task_id, tag_id) SELECT $1, tag_id FROM task_tags WHERE task_id = $2',
+        [createdId, template.id],
+      );
+
+      const occurrence = await manager.findOneOrFail(Task, {
+        where: { id: createdId },
+        relations: { tags: true },
+      });
+      await this.taskAuditService.recordCreated(manager, [occurrence], RECURRENCE_AUDIT_CONTEXT);
+
+      return occurrence;
+    });
+
+    if (created) {
+      this.logger.log(
+        `Generated occurrence ${created.id} of series ${template.seriesId} due ${dueDate.toISOString()}`,
+      );
+    }
+
+    return created;
+  }
+
+  private async removeOpenOccurrencesAfter(
+    task: Task,
+    manager: EntityManager,
+    audit: AuditContext,
+  ): Promise<void> {
+    const open = await manager.find(Task, {
+      where: {
+        seriesId: task.seriesId!,
+        dueDate: MoreThan(task.dueDate),
+        status: Not(TaskStatus.COMPLETED),
+      },
+      select: ['id'],
+    });
+
+    await this.taskHierarchyService.trashSubtrees(
+      open.map(occurrence => occurrence.id),
+      manager,
+      audit,
+    );
+  }
+
+  private async findOccurrence(id: string): Promise<Task> {
+    const task = await this.tasksRepository.findOne({ where: { id } });
+
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+    if (!task.seriesId || !task.recurrenceRule) {
+      throw new BadRequestException('Task is not part of a recurring series');
+    }
+
+    return task;
+  }
+
+  private scopeWhere(task: Task, scope: SeriesScope): FindOptionsWhere<Task> {
+    switch (scope) {
+      case SeriesScope.THIS:
+        return { id: task.id };
+      case SeriesScope.FOLLOWING:
+        return { seriesId: task.seriesId!, dueDate: MoreThanOrEqual(task.dueDate) };
+      case SeriesScope.ALL:
+        return { seriesId: task.seriesId! };
+    }
+  }
+
+  private definedFields(fields: Omit<UpdateTaskSeriesDto, 'recurrenceRule'>): Partial<Task> {
+    return Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    ) as Partial<Task>;
+  }
+}
@@ -11,83 +11,424 @@ import {
   HttpException,
   HttpStatus,
   ParseUUIDPipe,
+  DefaultValuePipe,
+  HttpCode,
+  ParseBoolPipe,
+  Headers,
+  Res,
+  UseFilters,
+  UseInterceptors,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { TasksService } from './tasks.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
-import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
-import { TaskStatus } from './enums/task-status.enum';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { TaskFilterDto } from './dto/task-filter.dto';
+import { SearchTasksDto } from './dto/search-tasks.dto';
+import { MoveTaskDto } from './dto/task-hierarchy.dto';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { AddTaskDependencyDto } from './dto/task-dependency.dto';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskSeriesScopeDto, UpdateTaskSeriesDto } from './dto/task-series.dto';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { CreateTaskCommentDto, UpdateTaskCommentDto } from './dto/task-comment.dto';
+import { TaskCommentsService } from './task-comments.service';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { TaskHistoryQueryDto } from './dto/task-audit.dto';
+import { PurgeTrashDto } from './dto/task-trash.dto';
+import { etagMatches, expectedVersionFromIfMatch, taskEtag } from './utils/etag.util';
+import { TaskVersionMismatchFilter } from './filters/task-version-mismatch.filter';
+import { apiAuditContext, TaskAuditService } from './task-audit.service';
+import { ProjectsService } from '../projects/projects.service';
 import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
 import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { IdempotencyInterceptor } from '../../common/interceptors/idempotency.interceptor';
+import { MeterUsage } from '../usage/decorators/meter-usage.decorator';
+import { UsageMetric } from '../usage/enums/usage-metric.enum';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { EmailVerificationGuard } from '../auth/guards/email-verification.guard';
 import { BatchProcessDto, BatchResult } from './dto/batch-action.dto';
 import { BatchAction } from '../../common/enums/batch-action.enum';
+import { TaskOwnershipGuard } from './guards/task-ownership.guard';
+import { AllowProjectMembers } from './decorators/allow-project-members.decorator';
+import { resolveTaskOwner, taskOwnerScope } from './policies/task-access.policy';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CreatesTasks } from '../auth/decorators/creates-tasks.decorator';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
 
 @ApiTags('tasks')
 @Controller('tasks')
-@UseGuards(JwtAuthGuard, RateLimitGuard)
+@UseGuards(JwtAuthGuard, EmailVerificationGuard, RateLimitGuard, TaskOwnershipGuard)
 @RateLimit({ limit: 100, windowMs: 60000 })
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class TasksController {
-  constructor(private readonly tasksService: TasksService) {}
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly taskHierarchyService: TaskHierarchyService,
+    private readonly taskDependenciesService: TaskDependenciesService,
+    private readonly taskRecurrenceService: TaskRecurrenceService,
+    private readonly projectsService: ProjectsService,
+    private readonly taskCommentsService: TaskCommentsService,
+    private readonly taskAuditService: TaskAuditService,
+  ) {}
 
   @Post()
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @CreatesTasks()
+  @UseInterceptors(IdempotencyInterceptor)
+  @MeterUsage(UsageMetric.TASKS_CREATED)
   @ApiOperation({ summary: 'Create a new task' })
-  create(@Body() createTaskDto: CreateTaskDto) {
-    return this.tasksService.create(createTaskDto);
+  async create(@Body() createTaskDto: CreateTaskDto, @CurrentUser() user: AuthenticatedUser) {
+    // Project members may assign tasks to each other; elsewhere the usual owner rules apply
+    const userId = createTaskDto.projectId
+      ? await this.projectsService.resolveAssignee(
+          createTaskDto.projectId,
+          user,
+          createTaskDto.userId,
+        )
+      : resolveTaskOwner(user, createTaskDto.userId);
+
+    return this.tasksService.create(
+      { ...createTaskDto, userId },
+      taskOwnerScope(user),
+      apiAuditContext(user),
+    );
   }
 
   @Get()
+  @RequireScopes(ApiKeyScope.TASKS_READ)
   @ApiOperation({ summary: 'Find all tasks with optional filtering' })
-  @ApiQuery({ name: 'status', required: false })
-  @ApiQuery({ name: 'priority', required: false })
-  @ApiQuery({ name: 'page', required: false })
-  @ApiQuery({ name: 'limit', required: false })
-  async findAll(
-    @Query('status') status?: string,
-    @Query('priority') priority?: string,
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 10,
-  ) {
-    let { tasks, total, pages } = await this.tasksService.findAll(page, limit, status, priority);
+  async findAll(@Query() filter: TaskFilterDto, @CurrentUser() user: AuthenticatedUser) {
+    const ownerId = taskOwnerScope(user);
+
+    if (filter.cursor !== undefined) {
+      const { items, nextCursor, prevCursor } = await this.tasksService.findAllByCursor(
+        filter,
+        ownerId,
+      );
+
+      return {
+        data: items,
+        count: items.length,
+        nextCursor,
+        prevCursor,
+      };
+    }
+
+    const { tasks, total, pages } = await this.tasksService.findAll(filter, ownerId);
 
     return {
       data: tasks,
       count: tasks.length,
+      total,
       total_pages: pages,
-      page: page,
+      page: filter.page,
     };
   }
 
   @Get('stats')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
   @ApiOperation({ summary: 'Get task statistics' })
-  async getStats() {
-    const statistics = await this.tasksService.getTaskStatisticsBuiltIn();
+  async getStats(@CurrentUser() user: AuthenticatedUser) {
+    const statistics = await this.tasksService.getTaskStatisticsBuiltIn({
+      userId: taskOwnerScope(user),
+    });
     return statistics;
   }
 
+  @Get('search')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
+  @ApiOperation({ summary: 'Full-text search over task titles and descriptions' })
+  async search(@Query() query: SearchTasksDto, @CurrentUser() user: AuthenticatedUser) {
+    const { hits, total, pages } = await this.tasksService.search(query, taskOwnerScope(user));
+
+    return {
+      data: hits,
+      count: hits.length,
+      total,
+      total_pages: pages,
+      page: query.page,
+    };
+  }
+
+  @Get('trash')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
+  @ApiOperation({ summary: 'List deleted tasks that can still be restored' })
+  async findTrash(@Query() pagination: PaginationQueryDto, @CurrentUser() user: AuthenticatedUser) {
+    const { tasks, total, pages } = await this.tasksService.findTrash(
+      pagination,
+      taskOwnerScope(user),
+    );
+
+    return {
+      data: tasks,
+      count: tasks.length,
+      total,
+      total_pages: pages,
+      page: pagination.page,
+    };
+  }
+
+  @Delete('trash')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Permanently delete trashed tasks (admin only)' })
+  async purgeTrash(@Query() { before }: PurgeTrashDto, @CurrentUser() user: AuthenticatedUser) {
+    const purged = await this.tasksService.purgeTrash(
+      before ? new Date(before) : new Date(),
+      apiAuditContext(user),
+    );
+
+    return { purged };
+  }
+
   @Get(':id')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
+  @AllowProjectMembers()
   @ApiOperation({ summary: 'Find a task by ID' })
-  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     const task = await this.tasksService.findOne(id);
+
+    res.setHeader('ETag', taskEtag(task.version));
+    if (ifNoneMatch && etagMatches(ifNoneMatch, task.version)) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+
     return task;
   }
 
+  @Get(':id/subtree')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
+  @ApiOperation({ summary: 'Get a task with its nested subtasks and completion rollups' })
+  getSubtree(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.taskHierarchyService.getSubtree(id, taskOwnerScope(user));
+  }
+
+  @Get(':id/dependencies')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
+  @ApiOperation({ summary: 'Get the dependency graph around a task' })
+  getDependencies(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.taskDependenciesService.getGraph(id, taskOwnerScope(user));
+  }
+
+  @Post(':id/dependencies')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @ApiOperation({ summary: 'Mark a task as blocked by another task' })
+  addDependency(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() addTaskDependencyDto: AddTaskDependencyDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskDependenciesService.addDependency(
+      id,
+      addTaskDependencyDto.blockerId,
+      taskOwnerScope(user),
+    );
+  }
+
+  @Delete(':id/dependencies/:blockerId')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a blocking dependency from a task' })
+  removeDependency(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('blockerId', ParseUUIDPipe) blockerId: string,
+  ) {
+    return this.taskDependenciesService.removeDependency(id, blockerId);
+  }
+
+  @Get(':id/history')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
+  @AllowProjectMembers()
+  @ApiOperation({ summary: 'List the change history of a task, newest first' })
+  async getHistory(@Param('id', ParseUUIDPipe) id: string, @Query() query: TaskHistoryQueryDto) {
+    const { entries, total, pages } = await this.taskAuditService.findHistory(id, query);
+
+    return {
+      data: entries,
+      count: entries.length,
+      total,
+      total_pages: pages,
+      page: query.page,
+    };
+  }
+
+  @Get(':id/comments')
+  @RequireScopes(ApiKeyScope.TASKS_READ)
+  @AllowProjectMembers()
+  @ApiOperation({ summary: 'List the comment threads of a task' })
+  async findComments(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() pagination: PaginationQueryDto,
+  ) {
+    const { comments, total, pages } = await this.taskCommentsService.findAll(id, pagination);
+
+    return {
+      data: comments,
+      count: comments.length,
+      total,
+      total_pages: pages,
+      page: pagination.page,
+    };
+  }
+
+  @Post(':id/comments')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @AllowProjectMembers()
+  @ApiOperation({ summary: 'Comment on a task or reply to a comment' })
+  addComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createTaskCommentDto: CreateTaskCommentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskCommentsService.create(id, createTaskCommentDto, user);
+  }
+
+  @Patch(':id/comments/:commentId')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @AllowProjectMembers()
+  @ApiOperation({ summary: 'Edit a comment; the previous text is kept in its edit history' })
+  updateComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @Body() updateTaskCommentDto: UpdateTaskCommentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskCommentsService.update(id, commentId, updateTaskCommentDto, user);
+  }
+
+  @Delete(':id/comments/:commentId')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @AllowProjectMembers()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a comment together with its replies' })
+  removeComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskCommentsService.remove(id, commentId, user);
+  }
+
   @Patch(':id')
-  @ApiOperation({ summary: 'Update a task' })
-  update(@Param('id', ParseUUIDPipe) id: string, @Body() updateTaskDto: UpdateTaskDto) {
-    return this.tasksService.update(id, updateTaskDto);
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @UseFilters(TaskVersionMismatchFilter)
+  @ApiOperation({ summary: 'Update a task; requires If-Match with the ETag of the version read' })
+  @ApiQuery({
+    name: 'cascade',
+    required: false,
+    type: Boolean,
+    description: 'Also complete open subtasks when completing a parent task',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTaskDto: UpdateTaskDto,
+    @Query('cascade', new DefaultValuePipe(false), ParseBoolPipe) cascade: boolean,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthenticatedUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const task = await this.tasksService.update(id, updateTaskDto, apiAuditContext(user), {
+      cascadeCompletion: cascade,
+      expectedVersion: expectedVersionFromIfMatch(ifMatch),
+    });
+
+    if (task) {
+      res.setHeader('ETag', taskEtag(task.version));
+    }
+
+    return task;
+  }
+
+  @Patch(':id/parent')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @ApiOperation({ summary: 'Move a task under another parent, or to the top level' })
+  move(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() moveTaskDto: MoveTaskDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskHierarchyService.move(
+      id,
+      moveTaskDto.parentId,
+      apiAuditContext(user),
+      taskOwnerScope(user),
+    );
+  }
+
+  @Patch(':id/series')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @ApiOperation({ summary: 'Edit this occurrence, this and following, or all of a recurring task' })
+  updateSeries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() { scope }: TaskSeriesScopeDto,
+    @Body() updateTaskSeriesDto: UpdateTaskSeriesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskRecurrenceService.updateSeries(
+      id,
+      updateTaskSeriesDto,
+      scope,
+      apiAuditContext(user),
+    );
+  }
+
+  @Delete(':id/series')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @ApiOperation({
+    summary: 'Delete this occurrence, this and following, or all of a recurring task',
+  })
+  removeSeries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() { scope }: TaskSeriesScopeDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskRecurrenceService.removeSeries(id, scope, apiAuditContext(user));
+  }
+
+  @Post(':id/restore')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @ApiOperation({ summary: 'Restore a deleted task together with its subtasks' })
+  restore(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.tasksService.restore(id, taskOwnerScope(user), apiAuditContext(user));
   }
 
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete a task' })
-  remove(@Param('id') id: string) {
-    return this.tasksService.remove(id);
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @UseFilters(TaskVersionMismatchFilter)
+  @ApiOperation({
+    summary: 'Move a task and its subtasks to the trash; requires If-Match with the task ETag',
+  })
+  remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.tasksService.remove(id, apiAuditContext(user), expectedVersionFromIfMatch(ifMatch));
   }
 
   @Post('batch')
+  @RequireScopes(ApiKeyScope.TASKS_WRITE)
+  @UseInterceptors(IdempotencyInterceptor)
+  @MeterUsage(UsageMetric.BATCH_ITEMS, request => request.body?.tasks?.length ?? 0)
   @ApiOperation({ summary: 'Batch process multiple tasks' })
-  async batchProcess(@Body() operations: BatchProcessDto): Promise<BatchResult[]> {
+  async batchProcess(
+    @Body() operations: BatchProcessDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<BatchResult[]> {
     const { tasks: taskIds, action } = operations;
 
     // Validate input
@@ -100,7 +441,12 @@ export class TasksController {
 
     try {
       // Single service call for all batch processing
-      return await this.tasksService.processBatch(taskIds, action);
+      return await this.tasksService.processBatch(
+        taskIds,
+        action,
+        taskOwnerScope(user),
+        apiAuditContext(user),
+      );
     } catch (error) {
       throw new HttpException(
         error instanceof Error ? error.message : 'Batch processing failed',
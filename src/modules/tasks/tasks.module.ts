@@ -4,16 +4,37 @@ import { BullModule } from '@nestjs/bullmq';
 import { TasksService } from './tasks.service';
 import { TasksController } from './tasks.controller';
 import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskAuditLog } from './entities/task-audit-log.entity';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskCommentsService } from './task-comments.service';
+import { TaskAuditService } from './task-audit.service';
+import { TaskAuditController } from './task-audit.controller';
+import { TagsModule } from '../tags/tags.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { ProjectTasksController } from './project-tasks.controller';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task]),
+    TypeOrmModule.forFeature([Task, TaskDependency, TaskComment, TaskAuditLog]),
     BullModule.registerQueue({
       name: 'task-processing',
     }),
+    TagsModule,
+    ProjectsModule,
   ],
-  controllers: [TasksController],
-  providers: [TasksService],
-  exports: [TasksService],
+  controllers: [TasksController, ProjectTasksController, TaskAuditController],
+  providers: [
+    TasksService,
+    TaskHierarchyService,
+    TaskDependenciesService,
+    TaskRecurrenceService,
+    TaskCommentsService,
+    TaskAuditService,
+  ],
+  exports: [TasksService, TaskDependenciesService, TaskRecurrenceService],
 })
 export class TasksModule {} 
\ No newline at end of file
@@ -0,0 +1,414 @@
+import { Queue } from 'bullmq';
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import {
+  DataSource,
+  EntityManager,
+  In,
+  LessThanOrEqual,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { TasksService } from './tasks.service';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskPriority } from './enums/task-priority.enum';
+import { AuditSource } from './enums/audit-source.enum';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { AuditContext, TaskAuditService } from './task-audit.service';
+import { TagsService } from '../tags/tags.service';
+import { BatchAction } from '../../common/enums/batch-action.enum';
+import { TaskVersionMismatchException } from './exceptions/task-version-mismatch.exception';
+import { expectedVersionFromIfMatch } from './utils/etag.util';
+
+const audit: AuditContext = { actorId: 'owner-id', source: AuditSource.API };
+
+const task = (id: string, fields: Partial<Task> = {}) =>
+  ({ id, title: `Task ${id}`, status: TaskStatus.PENDING, userId: 'owner-id', ...fields }) as Task;
+
+type SearchQueryBuilder = jest.Mocked<
+  Pick<
+    SelectQueryBuilder<Task>,
+    | 'leftJoinAndSelect'
+    | 'where'
+    | 'andWhere'
+    | 'setParameters'
+    | 'addSelect'
+    | 'orderBy'
+    | 'addOrderBy'
+    | 'limit'
+    | 'offset'
+    | 'getCount'
+    | 'getRawAndEntities'
+  >
+>;
+
+// Rows come back the way Postgres ranks them; the service must keep that order
+const searchQueryBuilder = (
+  entities: Task[],
+  raw: Record<string, unknown>[],
+  total = entities.length,
+): SearchQueryBuilder => ({
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  setParameters: jest.fn().mockReturnThis(),
+  addSelect: jest.fn().mockReturnThis(),
+  orderBy: jest.fn().mockReturnThis(),
+  addOrderBy: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  offset: jest.fn().mockReturnThis(),
+  getCount: jest.fn().mockResolvedValue(total),
+  getRawAndEntities: jest.fn().mockResolvedValue({ entities, raw }),
+});
+
+describe('TasksService', () => {
+  let service: TasksService;
+  let tasksRepository: jest.Mocked<
+    Pick<Repository<Task>, 'find' | 'findOne' | 'createQueryBuilder'>
+  >;
+  let manager: jest.Mocked<
+    Pick<
+      EntityManager,
+      'findOne' | 'find' | 'exists' | 'update' | 'save' | 'delete' | 'query' | 'createQueryBuilder'
+    >
+  >;
+  let taskHierarchyService: jest.Mocked<
+    Pick<TaskHierarchyService, 'findIdsWithOpenSubtasks' | 'findSubtreeIds' | 'trashSubtrees'>
+  >;
+  let taskDependenciesService: jest.Mocked<
+    Pick<TaskDependenciesService, 'findBlockedIds' | 'findBlockingIds' | 'assertUnblocked'>
+  >;
+  let taskAuditService: jest.Mocked<
+    Pick<TaskAuditService, 'recordChanges' | 'recordRestored' | 'recordDeleted'>
+  >;
+
+  beforeEach(() => {
+    tasksRepository = { find: jest.fn(), findOne: jest.fn(), createQueryBuilder: jest.fn() };
+    manager = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      exists: jest.fn(),
+      update: jest.fn(),
+      save: jest.fn(),
+      delete: jest.fn(),
+      query: jest.fn(),
+      createQueryBuilder: jest.fn(),
+    };
+    taskHierarchyService = {
+      findIdsWithOpenSubtasks: jest.fn().mockResolvedValue(new Set()),
+      findSubtreeIds: jest.fn(),
+      trashSubtrees: jest.fn(),
+    };
+    taskDependenciesService = {
+      findBlockedIds: jest.fn().mockResolvedValue(new Set()),
+      findBlockingIds: jest.fn().mockResolvedValue([]),
+      assertUnblocked: jest.fn(),
+    };
+    taskAuditService = {
+      recordChanges: jest.fn(),
+      recordRestored: jest.fn(),
+      recordDeleted: jest.fn(),
+    };
+
+    const dataSource: Pick<DataSource, 'transaction'> = {
+      transaction: jest.fn((work: (manager: EntityManager) => Promise<unknown>) =>
+        work(manager as unknown as EntityManager),
+      ) as unknown as DataSource['transaction'],
+    };
+    const taskRecurrenceService: Pick<TaskRecurrenceService, 'rollForward'> = {
+      rollForward: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new TasksService(
+      tasksRepository as unknown as Repository<Task>,
+      { add: jest.fn().mockResolvedValue(undefined) } as unknown as Queue,
+      dataSource as DataSource,
+      taskHierarchyService as unknown as TaskHierarchyService,
+      taskDependenciesService as unknown as TaskDependenciesService,
+      taskRecurrenceService as TaskRecurrenceService,
+      {} as TagsService,
+      taskAuditService as unknown as TaskAuditService,
+    );
+  });
+
+  describe('search', () => {
+    const useQueryBuilder = (queryBuilder: SearchQueryBuilder) => {
+      tasksRepository.createQueryBuilder.mockReturnValue(
+        queryBuilder as unknown as SelectQueryBuilder<Task>,
+      );
+      tasksRepository.find.mockResolvedValue([]); // tags
+    };
+
+    it('should return hits best match first, ties broken by id', async () => {
+      const queryBuilder = searchQueryBuilder(
+        [task('title-match'), task('description-match')],
+        [
+          { search_rank: '0.6', title_headline: '<mark>Docs</mark>', description_headline: '' },
+          {
+            search_rank: '0.2',
+            title_headline: 'Notes',
+            description_headline: '<mark>docs</mark>',
+          },
+        ],
+      );
+      useQueryBuilder(queryBuilder);
+
+      const result = await service.search({ q: 'docs' }, 'owner-id');
+
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('search_rank', 'DESC');
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('task.id', 'ASC');
+      expect(result.hits.map(hit => [hit.task.id, hit.rank])).toEqual([
+        ['title-match', 0.6],
+        ['description-match', 0.2],
+      ]);
+    });
+
+    it('should escape HTML before highlighting, so <mark> is the only markup', async () => {
+      const queryBuilder = searchQueryBuilder(
+        [task('task-id', { title: 'Fix <script> & docs' })],
+        [
+          {
+            search_rank: '0.5',
+            title_headline: 'Fix &lt;script&gt; &amp; <mark>docs</mark>',
+            description_headline: '',
+          },
+        ],
+      );
+      useQueryBuilder(queryBuilder);
+
+      const result = await service.search({ q: 'docs' });
+
+      // & is replaced first so the entities added afterwards are not escaped twice
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `replace(replace(replace(replace(task.title, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`,
+        ),
+        'title_headline',
+      );
+      expect(queryBuilder.setParameters).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headlineOptions: expect.stringContaining('StartSel=<mark>, StopSel=</mark>'),
+        }),
+      );
+      expect(result.hits[0].highlights).toEqual({
+        title: 'Fix &lt;script&gt; &amp; <mark>docs</mark>',
+        description: '',
+      });
+    });
+
+    it('should combine the query with filters and page through the matches', async () => {
+      const queryBuilder = searchQueryBuilder(
+        [task('task-id')],
+        [{ search_rank: '0.1', title_headline: '', description_headline: '' }],
+        12,
+      );
+      useQueryBuilder(queryBuilder);
+
+      const result = await service.search(
+        {
+          q: 'docs',
+          status: [TaskStatus.COMPLETED],
+          priority: [TaskPriority.HIGH],
+          page: 2,
+          limit: 5,
+        },
+        'owner-id',
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.userId = :ownerId', {
+        ownerId: 'owner-id',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.status IN (:...statuses)', {
+        statuses: [TaskStatus.COMPLETED],
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.priority IN (:...priorities)', {
+        priorities: [TaskPriority.HIGH],
+      });
+      expect(queryBuilder.limit).toHaveBeenCalledWith(5);
+      expect(queryBuilder.offset).toHaveBeenCalledWith(5);
+      expect(result).toEqual(expect.objectContaining({ total: 12, pages: 3 }));
+    });
+  });
+
+  describe('conditional writes', () => {
+    beforeEach(() => {
+      // The locked read, then the task as it is now
+      manager.findOne.mockResolvedValue(task('task-id', { version: 3 }));
+    });
+
+    it('should reject an update based on a stale version', async () => {
+      const attempt = service.update('task-id', { title: 'Renamed' }, audit, {
+        expectedVersion: 2,
+      });
+
+      await expect(attempt).rejects.toThrow(TaskVersionMismatchException);
+      await expect(attempt).rejects.toMatchObject({ status: HttpStatus.PRECONDITION_FAILED });
+      expect(manager.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a removal based on a stale version', async () => {
+      await expect(service.remove('task-id', audit, 2)).rejects.toThrow(
+        TaskVersionMismatchException,
+      );
+      expect(taskHierarchyService.trashSubtrees).not.toHaveBeenCalled();
+    });
+
+    it('should require If-Match before a write reaches the task', () => {
+      expect(() => service.remove('task-id', audit, expectedVersionFromIfMatch(undefined))).toThrow(
+        expect.objectContaining({ status: HttpStatus.PRECONDITION_REQUIRED }),
+      );
+      expect(manager.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should write over any version for If-Match: *', async () => {
+      manager.update.mockResolvedValue({ affected: 1, raw: [], generatedMaps: [] });
+      taskHierarchyService.trashSubtrees.mockResolvedValue(['task-id']);
+
+      await expect(
+        service.update('task-id', { title: 'Renamed' }, audit, {
+          expectedVersion: expectedVersionFromIfMatch('*'),
+        }),
+      ).resolves.toEqual(task('task-id', { version: 3 }));
+      await expect(
+        service.remove('task-id', audit, expectedVersionFromIfMatch('*')),
+      ).resolves.toEqual({ message: 'Task moved to trash', deletedId: 'task-id' });
+      expect(manager.update).toHaveBeenCalledWith(
+        Task,
+        { id: 'task-id' },
+        expect.objectContaining({ title: 'Renamed' }),
+      );
+    });
+  });
+
+  describe('trash', () => {
+    const deletedAt = new Date('2024-03-01T10:00:00Z');
+
+    it('should list trashed tasks whose parent is not in the trash as well', async () => {
+      const queryBuilder = {
+        withDeleted: jest.fn().mockReturnThis(),
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        addOrderBy: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        offset: jest.fn().mockReturnThis(),
+        getManyAndCount: jest.fn().mockResolvedValue([[task('task-id', { deletedAt })], 11]),
+      };
+      tasksRepository.createQueryBuilder.mockReturnValue(
+        queryBuilder as unknown as SelectQueryBuilder<Task>,
+      );
+
+      const result = await service.findTrash({ page: 2, limit: 10 }, 'owner-id');
+
+      expect(queryBuilder.withDeleted).toHaveBeenCalled();
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('parent.deleted_at IS NOT NULL'),
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.userId = :ownerId', {
+        ownerId: 'owner-id',
+      });
+      expect(queryBuilder.offset).toHaveBeenCalledWith(10);
+      expect(result).toEqual({ tasks: [task('task-id', { deletedAt })], total: 11, pages: 2 });
+    });
+
+    it('should restore a task together with the subtasks trashed with it', async () => {
+      const update = {
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        returning: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue({ raw: [{ id: 'parent-id' }, { id: 'child-id' }] }),
+      };
+      manager.findOne.mockResolvedValue(task('parent-id', { deletedAt }));
+      manager.createQueryBuilder.mockReturnValue(update as unknown as SelectQueryBuilder<Task>);
+      taskHierarchyService.findSubtreeIds.mockResolvedValue([
+        'parent-id',
+        'child-id',
+        'older-child-id',
+      ]);
+      tasksRepository.findOne.mockResolvedValue(task('parent-id'));
+
+      await expect(service.restore('parent-id', 'owner-id', audit)).resolves.toEqual(
+        task('parent-id'),
+      );
+
+      expect(update.set).toHaveBeenCalledWith({ deletedAt: null });
+      expect(update.where).toHaveBeenCalledWith('id IN (:...ids)', {
+        ids: ['parent-id', 'child-id', 'older-child-id'],
+      });
+      // A subtask trashed on its own earlier stays in the trash
+      expect(update.andWhere).toHaveBeenCalledWith('deleted_at = :deletedAt', { deletedAt });
+      expect(taskAuditService.recordRestored).toHaveBeenCalledWith(
+        manager,
+        ['parent-id', 'child-id'],
+        deletedAt,
+        audit,
+      );
+    });
+
+    it('should not restore a task that is not in the trash', async () => {
+      manager.findOne.mockResolvedValue(task('task-id'));
+
+      await expect(service.restore('task-id', 'owner-id', audit)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(manager.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should only purge tasks trashed before the retention cutoff', async () => {
+      const cutoff = new Date('2024-02-01T00:00:00Z');
+      manager.find
+        .mockResolvedValueOnce([task('expired-id')]) // past retention
+        .mockResolvedValueOnce([task('expired-id'), task('expired-child-id')]); // with subtasks
+      taskHierarchyService.findSubtreeIds.mockResolvedValue(['expired-id', 'expired-child-id']);
+
+      await expect(service.purgeTrash(cutoff, audit)).resolves.toBe(2);
+
+      expect(manager.find).toHaveBeenNthCalledWith(
+        1,
+        Task,
+        expect.objectContaining({
+          where: { deletedAt: LessThanOrEqual(cutoff) },
+          withDeleted: true,
+        }),
+      );
+      expect(manager.delete).toHaveBeenCalledTimes(1);
+      expect(manager.delete).toHaveBeenCalledWith(Task, { id: In(['expired-id']) });
+    });
+
+    it('should purge nothing while no task is past retention', async () => {
+      manager.find.mockResolvedValue([]);
+
+      await expect(service.purgeTrash(new Date('2024-02-01T00:00:00Z'), audit)).resolves.toBe(0);
+
+      expect(manager.delete).not.toHaveBeenCalled();
+      expect(taskAuditService.recordDeleted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processBatch', () => {
+    it('should report tasks of other users as missing when completing', async () => {
+      tasksRepository.find
+        .mockResolvedValueOnce([task('own-id')]) // owner scope
+        .mockResolvedValueOnce([task('own-id')]); // bulk update
+      taskHierarchyService.findIdsWithOpenSubtasks.mockResolvedValue(new Set(['foreign-id']));
+
+      const results = await service.processBatch(
+        ['own-id', 'foreign-id'],
+        BatchAction.COMPLETE,
+        'owner-id',
+        audit,
+      );
+
+      expect(taskHierarchyService.findIdsWithOpenSubtasks).toHaveBeenCalledWith(['own-id']);
+      expect(results).toEqual([
+        expect.objectContaining({ taskId: 'own-id', success: true }),
+        { taskId: 'foreign-id', success: false, error: 'Task with ID foreign-id not found' },
+      ]);
+    });
+  });
+});
@@ -1,15 +1,72 @@
-import { HttpException, HttpStatus, Injectable, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { DataSource, In, Repository } from 'typeorm';
+import {
+  Brackets,
+  DataSource,
+  EntityManager,
+  In,
+  LessThanOrEqual,
+  QueryFailedError,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 import { Task } from './entities/task.entity';
+import { TaskVersionMismatchException } from './exceptions/task-version-mismatch.exception';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { TaskFilterDto } from './dto/task-filter.dto';
+import { SearchTasksDto, TaskSearchHit } from './dto/search-tasks.dto';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { AuditContext, TaskAuditService, TaskChange } from './task-audit.service';
+import { TagsService } from '../tags/tags.service';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { TaskStatus } from './enums/task-status.enum';
 import { TaskPriority } from './enums/task-priority.enum';
 import { BulkOperationResult } from '../../common/interfaces/bulk.operations.interface';
 import { BatchAction } from '../../common/enums/batch-action.enum';
+import { CursorPage } from '../../types/pagination.interface';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { paginateByCursor } from '../../common/utils/keyset-pagination.util';
+import { applySort, parseSort, SortableFields } from '../../common/utils/sort.util';
+
+const TASK_SORTABLE_FIELDS: SortableFields = {
+  createdAt: { expression: 'task.createdAt' },
+  updatedAt: { expression: 'task.updatedAt' },
+  dueDate: { expression: 'task.dueDate', nullable: true },
+  title: { expression: 'task.title' },
+  status: { expression: 'task.status' },
+  // Rank by severity rather than alphabetically
+  priority: {
+    expression: `CASE task.priority WHEN '${TaskPriority.HIGH}' THEN 3 WHEN '${TaskPriority.MEDIUM}' THEN 2 ELSE 1 END`,
+  },
+};
+
+const DEFAULT_TASK_SORT = '-createdAt';
+
+// Statuses a task can only move into once all of its blockers are completed
+const BLOCKABLE_STATUSES = [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED];
+
+// Must match the text search configuration of the search_vector column
+const SEARCH_QUERY = `websearch_to_tsquery('english', :q)`;
+const HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=5, MaxWords=20';
+
+// ts_headline copies its input verbatim, so the text is HTML-escaped first and
+// the <mark> tags it adds are the only markup in a highlight
+const escapeHtmlSql = (expression: string): string =>
+  `replace(replace(replace(replace(${expression}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`;
 
 @Injectable()
 export class TasksService {
@@ -21,13 +78,39 @@ export class TasksService {
     @InjectQueue('task-processing')
     private taskQueue: Queue,
     private dataSource: DataSource,
+    private taskHierarchyService: TaskHierarchyService,
+    private taskDependenciesService: TaskDependenciesService,
+    private taskRecurrenceService: TaskRecurrenceService,
+    private tagsService: TagsService,
+    private taskAuditService: TaskAuditService,
   ) {}
 
-  async create(createTaskDto: CreateTaskDto): Promise<Task> {
+  async create(
+    createTaskDto: CreateTaskDto,
+    ownerId: string | undefined,
+    audit: AuditContext,
+  ): Promise<Task> {
+    if (createTaskDto.parentId) {
+      await this.taskHierarchyService.assertParentAssignable(createTaskDto.parentId, ownerId);
+    }
+
+    // Recurring tasks start a series; the due date snaps to the first occurrence
+    const series = createTaskDto.recurrenceRule
+      ? this.taskRecurrenceService.startSeries(createTaskDto.recurrenceRule, createTaskDto.dueDate)
+      : {};
+
     // Inefficient implementation: creates the task but doesn't use a single transaction
     // for creating and adding to queue, potential for inconsistent state
-    const task = this.tasksRepository.create(createTaskDto);
-    const savedTask = await this.tasksRepository.save(task);
+    const { tagIds, ...taskFields } = createTaskDto;
+    const task = this.tasksRepository.create({ ...taskFields, ...series });
+    if (tagIds) {
+      task.tags = await this.tagsService.resolveTags(tagIds, createTaskDto.userId!);
+    }
+    const savedTask = await this.dataSource.transaction(async manager => {
+      const saved = await manager.save(task);
+      await this.taskAuditService.recordCreated(manager, [saved], audit);
+      return saved;
+    });
 
     // Add to queue without waiting for confirmation or handling errors
     this.taskQueue.add('task-status-update', {
@@ -39,32 +122,193 @@ export class TasksService {
   }
 
   async findAll(
-    page: number = 1,
-    limit: number = 10,
-    status?: string,
-    priority?: string,
+    filter: TaskFilterDto,
+    ownerId?: string,
   ): Promise<{ tasks: Task[]; total: number; pages: number }> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 10;
+
+    const sortKeys = parseSort(filter, TASK_SORTABLE_FIELDS, DEFAULT_TASK_SORT, 'task.id');
+
+    // The user join is to-one, so plain LIMIT/OFFSET is safe and keeps
+    // computed sort expressions out of TypeORM's distinct-id subquery
     const queryBuilder = this.tasksRepository
       .createQueryBuilder('task')
       .leftJoinAndSelect('task.user', 'user')
-      .take(limit)
-      .skip((page - 1) * limit);
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    applySort(queryBuilder, sortKeys);
+    this.applyFilters(queryBuilder, filter, ownerId);
+
+    const [tasks, total] = await queryBuilder.getManyAndCount();
+    await this.attachTags(tasks);
+
+    return { tasks, total, pages: Math.ceil(total / limit) };
+  }
+
+  async findAllByCursor(filter: TaskFilterDto, ownerId?: string): Promise<CursorPage<Task>> {
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .leftJoinAndSelect('task.user', 'user');
+
+    const sortKeys = parseSort(filter, TASK_SORTABLE_FIELDS, DEFAULT_TASK_SORT, 'task.id');
+    this.applyFilters(queryBuilder, filter, ownerId);
+
+    const page = await paginateByCursor(
+      queryBuilder,
+      sortKeys,
+      filter.cursor ?? '',
+      filter.limit ?? 10,
+    );
+    await this.attachTags(page.items);
+
+    return page;
+  }
 
-    if (status) {
-      queryBuilder.where('task.status = :status', { status });
+  async search(
+    query: SearchTasksDto,
+    ownerId?: string,
+  ): Promise<{ hits: TaskSearchHit[]; total: number; pages: number }> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 10;
+
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .leftJoinAndSelect('task.user', 'user')
+      .where(`task.searchVector @@ ${SEARCH_QUERY}`)
+      .setParameters({ q: query.q, headlineOptions: HEADLINE_OPTIONS });
+
+    this.applyFilters(queryBuilder, query, ownerId);
+
+    const total = await queryBuilder.getCount();
+
+    const { entities, raw } = await queryBuilder
+      .addSelect(`ts_rank_cd(task.searchVector, ${SEARCH_QUERY})`, 'search_rank')
+      .addSelect(
+        `ts_headline('english', ${escapeHtmlSql('task.title')}, ${SEARCH_QUERY}, :headlineOptions)`,
+        'title_headline',
+      )
+      .addSelect(
+        `ts_headline('english', ${escapeHtmlSql("COALESCE(task.description, '')")}, ${SEARCH_QUERY}, :headlineOptions)`,
+        'description_headline',
+      )
+      .orderBy('search_rank', 'DESC')
+      .addOrderBy('task.id', 'ASC')
+      .limit(limit)
+      .offset((page - 1) * limit)
+      .getRawAndEntities();
+
+    await this.attachTags(entities);
+
+    // The user join is to-one, so raw rows line up with entities
+    const hits = entities.map((task, index) => ({
+      task,
+      rank: Number(raw[index].search_rank),
+      highlights: {
+        title: raw[index].title_headline,
+        description: raw[index].description_headline,
+      },
+    }));
+
+    return { hits, total, pages: Math.ceil(total / limit) };
+  }
+
+  // Translate the filter DTO into WHERE clauses on the `task` alias
+  private applyFilters(
+    queryBuilder: SelectQueryBuilder<Task>,
+    filter: Partial<TaskFilterDto>,
+    ownerId?: string,
+  ): void {
+    this.assertValidRange('dueDate', filter.dueDateFrom, filter.dueDateTo);
+    this.assertValidRange('createdAt', filter.createdFrom, filter.createdTo);
+
+    if (ownerId) {
+      queryBuilder.andWhere('task.userId = :ownerId', { ownerId });
     }
 
-    if (priority) {
-      queryBuilder.andWhere('task.priority = :priority', { priority });
+    if (filter.status?.length) {
+      queryBuilder.andWhere('task.status IN (:...statuses)', { statuses: filter.status });
     }
 
-    const [tasks, total] = await queryBuilder.getManyAndCount();
-    return { tasks, total, pages: Math.ceil(total / limit) };
+    if (filter.priority?.length) {
+      queryBuilder.andWhere('task.priority IN (:...priorities)', { priorities: filter.priority });
+    }
+
+    if (filter.userId) {
+      queryBuilder.andWhere('task.userId = :userId', { userId: filter.userId });
+    }
+
+    if (filter.projectId) {
+      queryBuilder.andWhere('task.projectId = :projectId', { projectId: filter.projectId });
+    }
+
+    if (filter.dueDateFrom) {
+      queryBuilder.andWhere('task.dueDate >= :dueDateFrom', {
+        dueDateFrom: new Date(filter.dueDateFrom),
+      });
+    }
+
+    if (filter.dueDateTo) {
+      queryBuilder.andWhere('task.dueDate <= :dueDateTo', {
+        dueDateTo: new Date(filter.dueDateTo),
+      });
+    }
+
+    if (filter.createdFrom) {
+      queryBuilder.andWhere('task.createdAt >= :createdFrom', {
+        createdFrom: new Date(filter.createdFrom),
+      });
+    }
+
+    if (filter.createdTo) {
+      queryBuilder.andWhere('task.createdAt <= :createdTo', {
+        createdTo: new Date(filter.createdTo),
+      });
+    }
+
+    if (filter.overdue) {
+      queryBuilder
+        .andWhere('task.dueDate < :now', { now: new Date() })
+        .andWhere('task.status != :completed', { completed: TaskStatus.COMPLETED });
+    }
+
+    if (filter.tags?.length) {
+      // Matched in a subquery so the tag join cannot duplicate task rows
+      const tagMatches =
+        'SELECT COUNT(DISTINCT tt.tag_id) FROM task_tags tt WHERE tt.task_id = task.id AND tt.tag_id IN (:...tagIds)';
+      const tagIds = Array.from(new Set(filter.tags));
+
+      if (filter.tagMatch === 'all') {
+        queryBuilder.andWhere(`(${tagMatches}) = :tagCount`, { tagIds, tagCount: tagIds.length });
+      } else {
+        queryBuilder.andWhere(`(${tagMatches}) > 0`, { tagIds });
+      }
+    }
+
+    if (filter.search) {
+      // Escape LIKE wildcards so user input is matched literally
+      const term = `%${filter.search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      queryBuilder.andWhere(
+        new Brackets(qb => {
+          qb.where('task.title ILIKE :term', { term }).orWhere('task.description ILIKE :term', {
+            term,
+          });
+        }),
+      );
+    }
+  }
+
+  private assertValidRange(field: string, from?: string, to?: string): void {
+    if (from && to && new Date(from) > new Date(to)) {
+      throw new BadRequestException(`Invalid ${field} range: start must not be after end`);
+    }
   }
 
   async findOne(id: string): Promise<Task> {
     const task = await this.tasksRepository.findOne({
       where: { id },
+      relations: { tags: true },
     });
 
     if (!task) {
@@ -74,51 +318,131 @@ export class TasksService {
     return task;
   }
 
-  async update(id: string, updateTaskDto: UpdateTaskDto): Promise<Task | null> {
+  async findOwnerId(id: string): Promise<string | null> {
+    // Query builder skips the eager user relation; only the owner is needed.
+    // Trashed tasks are included so their owners can restore them
+    const task = await this.tasksRepository
+      .createQueryBuilder('task')
+      .withDeleted()
+      .select(['task.id', 'task.userId'])
+      .where('task.id = :id', { id })
+      .getOne();
+
+    return task?.userId ?? null;
+  }
+
+  // Whether the task belongs to a project the user is a member of
+  async isInMemberProject(id: string, userId: string): Promise<boolean> {
+    return this.tasksRepository
+      .createQueryBuilder('task')
+      .innerJoin('project_members', 'pm', 'pm.project_id = task.project_id')
+      .where('task.id = :id', { id })
+      .andWhere('pm.user_id = :userId', { userId })
+      .getExists();
+  }
+
+  async update(
+    id: string,
+    updateTaskDto: UpdateTaskDto,
+    audit: AuditContext,
+    options: { cascadeCompletion?: boolean; expectedVersion?: number } = {},
+  ): Promise<Task | null> {
+    let originalStatus: TaskStatus | undefined;
+    let completedTaskIds: string[] = [];
+
     return this.dataSource
       .transaction(async manager => {
         try {
           // Step 1: Get current task to check status change and validate existence
           const currentTask = await manager.findOne(Task, {
             where: { id },
-            select: ['id', 'status'], // Only select what we need
+            // Only select what we need: the status check, the audited fields and the version
+            select: [
+              'id',
+              'title',
+              'description',
+              'status',
+              'priority',
+              'dueDate',
+              'userId',
+              'version',
+            ],
+            loadEagerRelations: false,
+            // Concurrent writers queue up here, so each one checks the version it overwrites
+            lock: { mode: 'pessimistic_write' },
           });
 
           if (!currentTask) {
             throw new NotFoundException('Task not found');
           }
+          await this.assertVersion(currentTask, options.expectedVersion, manager);
 
-          const originalStatus = currentTask.status;
+          originalStatus = currentTask.status;
 
           // Step 2: Build update object with only defined fields
           const updateFields = this.buildUpdateFields(updateTaskDto);
+          const change: TaskChange = { taskId: id, before: currentTask, after: updateFields };
+
+          if (updateTaskDto.tagIds !== undefined) {
+            const tagIds = await this.replaceTags(
+              id,
+              updateTaskDto.tagIds,
+              currentTask.userId,
+              manager,
+            );
+            change.before = { ...change.before, tagIds: tagIds.before };
+            change.after = { ...change.after, tagIds: tagIds.after };
+            updateFields.updatedAt = new Date();
+          }
 
           if (Object.keys(updateFields).length === 0) {
             // No fields to update, return current task with relations
             return await manager.findOne(Task, {
               where: { id },
-              relations: ['user'],
+              relations: ['user', 'tags'],
             });
           }
 
-          // Step 3: Perform atomic update
+          // Step 3: A parent can only be completed once its subtasks are done,
+          // and no task can start or finish while one of its blockers is open
+          const statusChanged =
+            updateFields.status !== undefined && updateFields.status !== originalStatus;
+
+          if (statusChanged && updateFields.status === TaskStatus.COMPLETED) {
+            const subtaskIds = await this.completeOrRejectOpenSubtasks(
+              id,
+              !!options.cascadeCompletion,
+              manager,
+              audit,
+            );
+            completedTaskIds = [id, ...subtaskIds];
+          }
+          if (statusChanged && BLOCKABLE_STATUSES.includes(updateFields.status!)) {
+            await this.taskDependenciesService.assertUnblocked(
+              completedTaskIds.length ? completedTaskIds : [id],
+              manager,
+            );
+          }
+
+          // Step 4: Perform atomic update
           const updateResult = await manager.update(Task, { id }, updateFields);
 
           if (updateResult.affected === 0) {
             throw new NotFoundException('Task not found');
           }
+          await this.taskAuditService.recordChanges(manager, [change], audit);
 
-          // Step 4: Get updated task with relations
+          // Step 5: Get updated task with relations
           const updatedTask = await manager.findOne(Task, {
             where: { id },
-            relations: ['user'],
+            relations: ['user', 'tags'],
           });
 
           return updatedTask!;
         } catch (error) {
           this.logger.error(`Error updating task ${id}:`, error);
 
-          if (error instanceof NotFoundException) {
+          if (error instanceof HttpException) {
             throw error;
           }
 
@@ -127,17 +451,119 @@ export class TasksService {
       })
       .then(async updatedTask => {
         // Step 6: Queue operations after successful transaction (fire and forget)
-        if (updateTaskDto.status && updatedTask?.status !== updatedTask?.status) {
+        if (updateTaskDto.status && updatedTask?.status !== originalStatus) {
           this.queueStatusUpdate(updatedTask).catch(error =>
             this.logger.error('Failed to queue status update:', error),
           );
         }
+        if (completedTaskIds.length > 0) {
+          this.onTasksCompleted(completedTaskIds);
+        }
 
         return updatedTask;
       });
   }
 
-   // Helper method to build update fields
+  private async completeOrRejectOpenSubtasks(
+    id: string,
+    cascade: boolean,
+    manager: EntityManager,
+    audit: AuditContext,
+  ): Promise<string[]> {
+    const openSubtaskIds = await this.taskHierarchyService.findOpenDescendantIds(id, manager);
+    if (openSubtaskIds.length === 0) {
+      return [];
+    }
+
+    if (!cascade) {
+      throw new ConflictException(
+        `Task has ${openSubtaskIds.length} open subtask(s); complete them first or pass cascade=true`,
+      );
+    }
+
+    const openSubtasks = await manager.find(Task, {
+      where: { id: In(openSubtaskIds) },
+      select: ['id', 'status'],
+      loadEagerRelations: false,
+    });
+    await manager.update(
+      Task,
+      { id: In(openSubtaskIds) },
+      { status: TaskStatus.COMPLETED, updatedAt: new Date() },
+    );
+    await this.taskAuditService.recordChanges(
+      manager,
+      openSubtasks.map(subtask => ({
+        taskId: subtask.id,
+        before: { status: subtask.status },
+        after: { status: TaskStatus.COMPLETED },
+      })),
+      audit,
+    );
+    this.logger.log(`Cascaded completion of task ${id} to ${openSubtaskIds.length} subtask(s)`);
+
+    return openSubtaskIds;
+  }
+
+  // Returns the tag ids before and after the change for the audit trail
+  private async replaceTags(
+    id: string,
+    tagIds: string[],
+    ownerId: string,
+    manager: EntityManager,
+  ): Promise<{ before: string[]; after: string[] }> {
+    const tags = await this.tagsService.resolveTags(tagIds, ownerId);
+    const relation = manager.createQueryBuilder().relation(Task, 'tags').of(id);
+    const current: { id: string }[] = await relation.loadMany();
+
+    const wanted = new Set(tags.map(tag => tag.id));
+    const existing = new Set(current.map(tag => tag.id));
+
+    await relation.addAndRemove(
+      [...wanted].filter(tagId => !existing.has(tagId)),
+      [...existing].filter(tagId => !wanted.has(tagId)),
+    );
+
+    return { before: [...existing], after: [...wanted] };
+  }
+
+  // Tags are loaded separately so the to-many join cannot break LIMIT/OFFSET paging
+  private async attachTags(tasks: Task[]): Promise<void> {
+    if (tasks.length === 0) {
+      return;
+    }
+
+    const withTags = await this.tasksRepository.find({
+      where: { id: In(tasks.map(task => task.id)) },
+      relations: { tags: true },
+      select: { id: true, tags: { id: true, name: true, color: true } },
+      loadEagerRelations: false,
+    });
+    const tagsById = new Map(withTags.map(task => [task.id, task.tags ?? []]));
+
+    tasks.forEach(task => {
+      task.tags = tagsById.get(task.id) ?? [];
+    });
+  }
+
+  // Rejects a write based on a stale read, carrying the task as it is now
+  private async assertVersion(
+    task: Task,
+    expectedVersion: number | undefined,
+    manager: EntityManager,
+  ): Promise<void> {
+    if (expectedVersion === undefined || task.version === expectedVersion) {
+      return;
+    }
+
+    const current = await manager.findOne(Task, {
+      where: { id: task.id },
+      relations: { tags: true },
+    });
+    throw new TaskVersionMismatchException(current!);
+  }
+
+  // Helper method to build update fields
   private buildUpdateFields(updateTaskDto: UpdateTaskDto): Partial<Task> {
     const updateFields: Partial<Task> = {};
 
@@ -193,23 +619,71 @@ export class TasksService {
     }
   }
 
-async remove(id: string): Promise<{ message: string; deletedId: string }> {
+  // Follow-up work after tasks are completed (fire and forget)
+  private onTasksCompleted(taskIds: string[]): void {
+    this.queueUnblockedNotification(taskIds).catch(error =>
+      this.logger.error('Failed to queue unblocked notification:', error),
+    );
+    this.taskRecurrenceService
+      .rollForward(taskIds)
+      .catch(error => this.logger.error('Failed to generate next occurrences:', error));
+  }
+
+  // Lets the owners of tasks that were waiting on `taskIds` know they can start
+  private async queueUnblockedNotification(taskIds: string[]): Promise<void> {
+    const blockerIds = await this.taskDependenciesService.findBlockingIds(taskIds);
+    if (blockerIds.length === 0) {
+      return;
+    }
+
+    await this.taskQueue.add(
+      'notify-unblocked-tasks',
+      { blockerIds, timestamp: new Date().toISOString() },
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+  }
+
+async remove(
+    id: string,
+    audit: AuditContext,
+    expectedVersion?: number,
+  ): Promise<{ message: string; deletedId: string }> {
     try {
-      // Single atomic delete operation
-      const deleteResult = await this.tasksRepository.delete({ id });
+      // Soft delete: the task and its subtasks stay restorable from the trash
+      await this.dataSource.transaction(async manager => {
+        const task = await manager.findOne(Task, {
+          where: { id },
+          select: ['id', 'version'],
+          loadEagerRelations: false,
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!task) {
+          throw new NotFoundException('Task not found');
+        }
+        await this.assertVersion(task, expectedVersion, manager);
 
-      if (deleteResult.affected === 0) {
-        throw new NotFoundException('Task not found');
-      }
+        const trashedIds = await this.taskHierarchyService.trashSubtrees([id], manager, audit);
+        if (!trashedIds.includes(id)) {
+          throw new NotFoundException('Task not found');
+        }
+      });
 
-      this.logger.log(`Task ${id} deleted successfully`);
+      this.logger.log(`Task ${id} moved to trash`);
       
       return {
-        message: 'Task deleted successfully',
+        message: 'Task moved to trash',
         deletedId: id
       };
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (error instanceof HttpException) {
         throw error;
       }
       
@@ -218,26 +692,162 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
     }
   }
 
+  // Trashed tasks that can be restored directly; subtasks come back with their parent
+  async findTrash(
+    pagination: PaginationQueryDto,
+    ownerId?: string,
+  ): Promise<{ tasks: Task[]; total: number; pages: number }> {
+    const page = pagination.page ?? 1;
+    const limit = pagination.limit ?? 10;
+
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .withDeleted()
+      .leftJoinAndSelect('task.user', 'user')
+      .where('task.deletedAt IS NOT NULL')
+      .andWhere(
+        'NOT EXISTS (SELECT 1 FROM tasks parent WHERE parent.id = task.parent_id AND parent.deleted_at IS NOT NULL)',
+      )
+      .orderBy('task.deletedAt', 'DESC')
+      .addOrderBy('task.id', 'ASC')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    if (ownerId) {
+      queryBuilder.andWhere('task.userId = :ownerId', { ownerId });
+    }
+
+    const [tasks, total] = await queryBuilder.getManyAndCount();
+    return { tasks, total, pages: Math.ceil(total / limit) };
+  }
+
+  // Brings a task back from the trash together with the subtasks trashed with it
+  async restore(id: string, ownerId: string | undefined, audit: AuditContext): Promise<Task> {
+    await this.dataSource.transaction(async manager => {
+      const task = await manager.findOne(Task, {
+        where: { id, ...(ownerId ? { userId: ownerId } : {}) },
+        withDeleted: true,
+        loadEagerRelations: false,
+      });
+      if (!task?.deletedAt) {
+        throw new NotFoundException('Task not found in trash');
+      }
+
+      if (task.parentId && !(await manager.exists(Task, { where: { id: task.parentId } }))) {
+        throw new ConflictException('The parent task is in the trash; restore it first');
+      }
+
+      const subtreeIds = await this.taskHierarchyService.findSubtreeIds([id], manager);
+      const result = await manager
+        .createQueryBuilder()
+        .update(Task)
+        .set({ deletedAt: null })
+        .where('id IN (:...ids)', { ids: subtreeIds })
+        .andWhere('deleted_at = :deletedAt', { deletedAt: task.deletedAt })
+        .returning(['id'])
+        .execute()
+        .catch(error => {
+          // A recurring occurrence may have been regenerated for the same due date
+          if (error instanceof QueryFailedError && error.driverError?.code === '23505') {
+            throw new ConflictException('Another occurrence of this recurring task is due then');
+          }
+          throw error;
+        });
+
+      await this.taskAuditService.recordRestored(
+        manager,
+        result.raw.map((row: { id: string }) => row.id),
+        task.deletedAt,
+        audit,
+      );
+    });
+
+    this.logger.log(`Task ${id} restored from trash`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Permanently deletes tasks trashed before `deletedBefore`, in batches of
+   * `batchSize`. Subtasks removed by ON DELETE CASCADE are audited as well.
+   * Returns the number of deleted tasks.
+   */
+  async purgeTrash(deletedBefore: Date, audit: AuditContext, batchSize = 500): Promise<number> {
+    let purged = 0;
+
+    while (true) {
+      const batch = await this.dataSource.transaction(async manager => {
+        const expired = await manager.find(Task, {
+          where: { deletedAt: LessThanOrEqual(deletedBefore) },
+          select: ['id'],
+          withDeleted: true,
+          loadEagerRelations: false,
+          order: { deletedAt: 'ASC', id: 'ASC' },
+          take: batchSize,
+        });
+        if (expired.length === 0) {
+          return { selected: 0, deleted: 0 };
+        }
+
+        const expiredIds = expired.map(task => task.id);
+        const subtreeIds = await this.taskHierarchyService.findSubtreeIds(expiredIds, manager);
+        const tasks = await manager.find(Task, {
+          where: { id: In(subtreeIds) },
+          relations: { tags: true },
+          withDeleted: true,
+          loadEagerRelations: false,
+        });
+
+        await this.taskAuditService.recordDeleted(manager, tasks, audit);
+        await manager.delete(Task, { id: In(expiredIds) });
+
+        return { selected: expired.length, deleted: tasks.length };
+      });
+
+      purged += batch.deleted;
+      if (batch.selected < batchSize) {
+        break;
+      }
+    }
+
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} task(s) trashed before ${deletedBefore.toISOString()}`);
+    }
+
+    return purged;
+  }
+
   async findByStatus(status: TaskStatus): Promise<Task[]> {
     // Inefficient implementation: doesn't use proper repository patterns
-    const query = 'SELECT * FROM tasks WHERE status = $1';
+    const query = 'SELECT * FROM tasks WHERE status = $1 AND deleted_at IS NULL';
     return this.tasksRepository.query(query, [status]);
   }
 
-  async updateStatus(id: string, status: string): Promise<Task> {
+  async updateStatus(id: string, status: string, audit: AuditContext): Promise<Task> {
     // This method will be called by the task processor
     const task = await this.findOne(id);
+    const previousStatus = task.status;
     task.status = status as any;
-    return this.tasksRepository.save(task);
+
+    return this.dataSource.transaction(async manager => {
+      const savedTask = await manager.save(task);
+      await this.taskAuditService.recordChanges(
+        manager,
+        [{ taskId: id, before: { status: previousStatus }, after: { status: savedTask.status } }],
+        audit,
+      );
+      return savedTask;
+    });
   }
 
-  async getTaskStatisticsBuiltIn() {
+  // Counts tasks of one owner, one project, or (with an empty scope) all tasks
+  async getTaskStatisticsBuiltIn(scope: { userId?: string; projectId?: string } = {}) {
     const [total, completed, inProgress, pending, highPriority] = await Promise.all([
-      this.tasksRepository.count(),
-      this.tasksRepository.count({ where: { status: TaskStatus.COMPLETED } }),
-      this.tasksRepository.count({ where: { status: TaskStatus.IN_PROGRESS } }),
-      this.tasksRepository.count({ where: { status: TaskStatus.PENDING } }),
-      this.tasksRepository.count({ where: { priority: TaskPriority.HIGH } }),
+      this.tasksRepository.count({ where: scope }),
+      this.tasksRepository.count({ where: { ...scope, status: TaskStatus.COMPLETED } }),
+      this.tasksRepository.count({ where: { ...scope, status: TaskStatus.IN_PROGRESS } }),
+      this.tasksRepository.count({ where: { ...scope, status: TaskStatus.PENDING } }),
+      this.tasksRepository.count({ where: { ...scope, priority: TaskPriority.HIGH } }),
     ]);
 
     return {
@@ -246,17 +856,22 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
       inProgress,
       pending,
       highPriority,
+      byTag: await this.tagsService.countTasksByTag(scope),
     };
   }
 
-
-  async bulkUpdate(taskIds: string[], updateData: Partial<Task>): Promise<BulkOperationResult[]> {
+  async bulkUpdate(
+    taskIds: string[],
+    updateData: Partial<Task>,
+    ownerId: string | undefined,
+    audit: AuditContext,
+  ): Promise<BulkOperationResult[]> {
     const results: BulkOperationResult[] = [];
 
     try {
-      // Validate task existence
+      // Validate task existence; tasks outside the owner scope count as missing
       const tasks = await this.tasksRepository.find({
-        where: { id: In(taskIds) },
+        where: { id: In(taskIds), ...(ownerId ? { userId: ownerId } : {}) },
       });
 
       // Map existing task IDs for quick lookup
@@ -274,6 +889,18 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
 
       // Perform bulk update for existing tasks
       if (existingTaskIds.size > 0) {
+        await this.dataSource.transaction(async manager => {
+          await manager.update(
+            Task,
+            { id: In(Array.from(existingTaskIds)) },
+            { ...updateData, updatedAt: new Date() },
+          );
+          await this.taskAuditService.recordChanges(
+            manager,
+            tasks.map(task => ({ taskId: task.id, before: task, after: updateData })),
+            audit,
+          );
+        });
 
         // Add successful updates to results
         tasks.forEach(task => {
@@ -297,13 +924,17 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
     }
   }
 
-  async bulkRemove(taskIds: string[]): Promise<BulkOperationResult[]> {
+  async bulkRemove(
+    taskIds: string[],
+    ownerId: string | undefined,
+    audit: AuditContext,
+  ): Promise<BulkOperationResult[]> {
     const results: BulkOperationResult[] = [];
 
     try {
-      // Validate task existence
+      // Validate task existence; tasks outside the owner scope count as missing
       const tasks = await this.tasksRepository.find({
-        where: { id: In(taskIds) },
+        where: { id: In(taskIds), ...(ownerId ? { userId: ownerId } : {}) },
       });
 
       // Map existing task IDs for quick lookup
@@ -321,16 +952,17 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
 
       // Perform bulk delete for existing tasks
       if (existingTaskIds.size > 0) {
-        await this.tasksRepository.delete({
-          id: In(Array.from(existingTaskIds)),
-        });
+        // Soft delete, so an accidental batch delete can be undone from the trash
+        await this.dataSource.transaction(manager =>
+          this.taskHierarchyService.trashSubtrees(Array.from(existingTaskIds), manager, audit),
+        );
 
         // Add successful deletions to results
         tasks.forEach(task => {
           results.push({
             taskId: task.id,
             success: true,
-            data: { message: `Task ${task.id} deleted successfully` },
+            data: { message: `Task ${task.id} moved to trash` },
           });
         });
       }
@@ -347,16 +979,21 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
     }
   }
 
-    async processBatch(taskIds: string[], action: BatchAction): Promise<BulkOperationResult[]> {
+  async processBatch(
+    taskIds: string[],
+    action: BatchAction,
+    ownerId: string | undefined,
+    audit: AuditContext,
+  ): Promise<BulkOperationResult[]> {
     try {
       let results: BulkOperationResult[];
 
       switch (action) {
         case BatchAction.COMPLETE:
-          results = await this.processCompleteAction(taskIds);
+          results = await this.processCompleteAction(taskIds, ownerId, audit);
           break;
         case BatchAction.DELETE:
-          results = await this.processDeleteAction(taskIds);
+          results = await this.processDeleteAction(taskIds, ownerId, audit);
           break;
         default:
           throw new HttpException(`Unsupported action: ${action}`, HttpStatus.BAD_REQUEST);
@@ -373,18 +1010,55 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
     }
   }
 
-  private async processCompleteAction(taskIds: string[]): Promise<BulkOperationResult[]> {
+  private async processCompleteAction(
+    taskIds: string[],
+    ownerId: string | undefined,
+    audit: AuditContext,
+  ): Promise<BulkOperationResult[]> {
     try {
+      // Tasks outside the owner scope count as missing before anything else is looked up about them
+      const scopedIds = ownerId ? await this.findOwnedIds(taskIds, ownerId) : new Set(taskIds);
+
+      // Parents with open subtasks outside the batch stay open
+      const withOpenSubtasks = await this.taskHierarchyService.findIdsWithOpenSubtasks(
+        taskIds.filter(taskId => scopedIds.has(taskId)),
+      );
+      const candidateIds = taskIds.filter(
+        taskId => scopedIds.has(taskId) && !withOpenSubtasks.has(taskId),
+      );
+
+      // So do tasks still waiting on a blocker
+      const blockedIds = await this.taskDependenciesService.findBlockedIds(candidateIds, ownerId);
+      const completableIds = candidateIds.filter(taskId => !blockedIds.has(taskId));
+
       // Bulk update instead of individual updates
-      const updateResults = await this.bulkUpdate(taskIds, {
-        status: TaskStatus.COMPLETED,
-      });
+      const updateResults = await this.bulkUpdate(
+        completableIds,
+        { status: TaskStatus.COMPLETED },
+        ownerId,
+        audit,
+      );
+      const resultsById = new Map(updateResults.map(result => [result.taskId, result]));
 
-      return taskIds.map((taskId, index) => ({
-        taskId,
-        success: true,
-        data: updateResults[index].data,
-      }));
+      const completedIds = updateResults
+        .filter(result => result.success)
+        .map(result => result.taskId);
+      if (completedIds.length > 0) {
+        this.onTasksCompleted(completedIds);
+      }
+
+      return taskIds.map(
+        taskId =>
+          resultsById.get(taskId) ?? {
+            taskId,
+            success: false,
+            error: !scopedIds.has(taskId)
+              ? `Task with ID ${taskId} not found`
+              : blockedIds.has(taskId)
+                ? `Task with ID ${taskId} is blocked by unfinished tasks`
+                : `Task with ID ${taskId} has open subtasks`,
+          },
+      );
     } catch (error) {
       return taskIds.map(taskId => ({
         taskId,
@@ -394,16 +1068,24 @@ async remove(id: string): Promise<{ message: string; deletedId: string }> {
     }
   }
 
-  private async processDeleteAction(taskIds: string[]): Promise<BulkOperationResult[]> {
+  private async findOwnedIds(taskIds: string[], ownerId: string): Promise<Set<string>> {
+    const tasks = await this.tasksRepository.find({
+      where: { id: In(taskIds), userId: ownerId },
+      select: ['id'],
+      loadEagerRelations: false,
+    });
+
+    return new Set(tasks.map(task => task.id));
+  }
+
+  private async processDeleteAction(
+    taskIds: string[],
+    ownerId: string | undefined,
+    audit: AuditContext,
+  ): Promise<BulkOperationResult[]> {
     try {
       // Bulk delete instead of individual deletes
-      const deleteResults = await this.bulkRemove(taskIds);
-
-      return taskIds.map((taskId, index) => ({
-        taskId,
-        success: true,
-        data: deleteResults[index].data,
-      }));
+      return await this.bulkRemove(taskIds, ownerId, audit);
     } catch (error) {
       return taskIds.map(taskId => ({
         taskId,
@@ -0,0 +1,41 @@
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { etagMatches, expectedVersionFromIfMatch, taskEtag } from './etag.util';
+
+describe('etag util', () => {
+  it('should quote the version', () => {
+    expect(taskEtag(3)).toBe('"3"');
+  });
+
+  describe('etagMatches', () => {
+    it('should match any listed tag, weak or strong', () => {
+      expect(etagMatches('"2", W/"3"', 3)).toBe(true);
+      expect(etagMatches('*', 7)).toBe(true);
+    });
+
+    it('should not match other versions', () => {
+      expect(etagMatches('"2"', 3)).toBe(false);
+    });
+  });
+
+  describe('expectedVersionFromIfMatch', () => {
+    it('should read the version of a single tag', () => {
+      expect(expectedVersionFromIfMatch('"5"')).toBe(5);
+      expect(expectedVersionFromIfMatch('W/"5"')).toBe(5);
+    });
+
+    it('should accept any version for *', () => {
+      expect(expectedVersionFromIfMatch('*')).toBeUndefined();
+    });
+
+    it('should require the header', () => {
+      expect(() => expectedVersionFromIfMatch(undefined)).toThrow(
+        expect.objectContaining({ status: HttpStatus.PRECONDITION_REQUIRED }),
+      );
+    });
+
+    it('should reject malformed or multiple tags', () => {
+      expect(() => expectedVersionFromIfMatch('5')).toThrow(BadRequestException);
+      expect(() => expectedVersionFromIfMatch('"4", "5"')).toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+
+// Strong ETag for a task version, e.g. "3"
+export const taskEtag = (version: number): string => `"${version}"`;
+
+const parseEtags = (header: string): string[] =>
+  header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .filter(Boolean);
+
+// Whether an If-None-Match header names the given version, so a 304 can be sent
+export function etagMatches(header: string, version: number): boolean {
+  const tags = parseEtags(header);
+  return tags.includes('*') || tags.includes(taskEtag(version));
+}
+
+/**
+ * Reads the version a write expects from its If-Match header. The header is
+ * mandatory so clients cannot overwrite changes they have not seen; `*`
+ * accepts any version and yields undefined.
+ */
+export function expectedVersionFromIfMatch(header: string | undefined): number | undefined {
+  if (!header) {
+    throw new HttpException(
+      'If-Match header with the task ETag is required',
+      HttpStatus.PRECONDITION_REQUIRED,
+    );
+  }
+
+  const tags = parseEtags(header);
+  if (tags.length === 1 && tags[0] === '*') {
+    return undefined;
+  }
+
+  const match = tags.length === 1 ? /^"(\d+)"$/.exec(tags[0]) : null;
+  if (!match) {
+    throw new BadRequestException('If-Match must contain a single task ETag');
+  }
+
+  return Number(match[1]);
+}
@@ -0,0 +1,24 @@
+import { parseMentions } from './mention.util';
+
+describe('parseMentions', () => {
+  it('should find email and name mentions', () => {
+    expect(parseMentions('@JaneDoe can you check with @bob@example.com?')).toEqual({
+      emails: ['bob@example.com'],
+      handles: ['janedoe'],
+    });
+  });
+
+  it('should ignore trailing punctuation and duplicates', () => {
+    expect(parseMentions('Thanks (@ann), and again @Ann.')).toEqual({
+      emails: [],
+      handles: ['ann'],
+    });
+  });
+
+  it('should not treat plain email addresses as mentions', () => {
+    expect(parseMentions('Mail support@example.com for access')).toEqual({
+      emails: [],
+      handles: [],
+    });
+  });
+});
@@ -0,0 +1,30 @@
+// `@` at the start of a word followed by an email address or a name handle
+const MENTION_PATTERN = /(?<![\w@])@([^\s@]+(?:@[^\s@]+)?)/gu;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/u;
+
+export interface ParsedMentions {
+  emails: string[];
+  handles: string[];
+}
+
+/**
+ * Extracts `@email` and `@name` mentions from a comment body. Emails and
+ * handles are lower-cased and deduplicated; a handle is matched against user
+ * names with their whitespace removed, so `@JaneDoe` finds "Jane Doe".
+ */
+export function parseMentions(body: string): ParsedMentions {
+  const emails = new Set<string>();
+  const handles = new Set<string>();
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const mention = match[1].replace(TRAILING_PUNCTUATION, '').toLowerCase();
+
+    if (mention.includes('@')) {
+      emails.add(mention);
+    } else if (mention) {
+      handles.add(mention);
+    }
+  }
+
+  return { emails: Array.from(emails), handles: Array.from(handles) };
+}
@@ -0,0 +1,67 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  buildRecurrenceRule,
+  endRecurrenceBefore,
+  firstOccurrence,
+  nextOccurrence,
+  recurrenceStart,
+} from './recurrence.util';
+
+const start = new Date('2026-01-15T09:00:00Z');
+
+describe('recurrence utilities', () => {
+  describe('buildRecurrenceRule', () => {
+    it('should anchor the rule at the given start', () => {
+      const rule = buildRecurrenceRule('RRULE:FREQ=WEEKLY;BYDAY=MO', start);
+
+      expect(rule).toBe('DTSTART:20260115T090000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO');
+      expect(recurrenceStart(rule)).toEqual(start);
+    });
+
+    it('should reject unparseable rules', () => {
+      expect(() => buildRecurrenceRule('FREQ=WEEKLY;FOO=1', start)).toThrow(BadRequestException);
+    });
+
+    it('should reject sub-daily frequencies', () => {
+      expect(() => buildRecurrenceRule('FREQ=HOURLY', start)).toThrow(BadRequestException);
+    });
+
+    it('should reject rules that bring their own DTSTART', () => {
+      expect(() => buildRecurrenceRule('FREQ=DAILY;DTSTART=20260101T000000Z', start)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('occurrences', () => {
+    it('should snap the first occurrence to the schedule', () => {
+      const rule = buildRecurrenceRule('FREQ=WEEKLY;BYDAY=MO', start);
+
+      expect(firstOccurrence(rule)).toEqual(new Date('2026-01-19T09:00:00Z'));
+    });
+
+    it('should find the last business day of the month', () => {
+      const rule = buildRecurrenceRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', start);
+
+      expect(nextOccurrence(rule, new Date('2026-01-30T09:00:00Z'))).toEqual(
+        new Date('2026-02-27T09:00:00Z'),
+      );
+    });
+
+    it('should stop once COUNT is exhausted', () => {
+      const rule = buildRecurrenceRule('FREQ=DAILY;COUNT=2', start);
+
+      expect(nextOccurrence(rule, new Date('2026-01-16T09:00:00Z'))).toBeNull();
+    });
+
+    it('should end a series before a given occurrence', () => {
+      const rule = buildRecurrenceRule('FREQ=DAILY;COUNT=10', start);
+      const ended = endRecurrenceBefore(rule, new Date('2026-01-17T09:00:00Z'));
+
+      expect(nextOccurrence(ended, new Date('2026-01-15T09:00:00Z'))).toEqual(
+        new Date('2026-01-16T09:00:00Z'),
+      );
+      expect(nextOccurrence(ended, new Date('2026-01-16T09:00:00Z'))).toBeNull();
+    });
+  });
+});
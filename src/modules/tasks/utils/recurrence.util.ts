@@ -0,0 +1,65 @@
+import { BadRequestException } from '@nestjs/common';
+import { Frequency, RRule, rrulestr } from 'rrule';
+
+// Chores repeat at most daily; finer schedules would flood users with occurrences
+const SUPPORTED_FREQUENCIES = [
+  Frequency.YEARLY,
+  Frequency.MONTHLY,
+  Frequency.WEEKLY,
+  Frequency.DAILY,
+];
+
+/**
+ * Parses a user supplied RRULE (with or without the `RRULE:` prefix) and
+ * anchors it at `dtstart`. The anchor always comes from the task, so a
+ * DTSTART inside the rule is rejected. Returns the rule in iCalendar form
+ * (`DTSTART:...\nRRULE:...`), which is how it is stored on the task.
+ */
+export function buildRecurrenceRule(rule: string, dtstart: Date): string {
+  const body = rule.trim().replace(/^RRULE:/i, '');
+
+  let options: ReturnType<typeof RRule.parseString>;
+  try {
+    options = RRule.parseString(body);
+  } catch (error) {
+    throw new BadRequestException(
+      `Invalid recurrence rule: ${error instanceof Error ? error.message : 'unparseable'}`,
+    );
+  }
+
+  if (options.dtstart) {
+    throw new BadRequestException('Recurrence rule must not contain DTSTART; use dueDate instead');
+  }
+  if (options.freq === undefined || !SUPPORTED_FREQUENCIES.includes(options.freq)) {
+    throw new BadRequestException('Recurrence rule FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  return new RRule({ ...options, dtstart }).toString();
+}
+
+// First occurrence on or after the anchor, or null when the rule never fires
+export function firstOccurrence(rule: string): Date | null {
+  const parsed = rrulestr(rule) as RRule;
+  return parsed.after(parsed.options.dtstart, true);
+}
+
+// Next occurrence strictly after `after`, or null once COUNT/UNTIL is exhausted
+export function nextOccurrence(rule: string, after: Date): Date | null {
+  return (rrulestr(rule) as RRule).after(after, false);
+}
+
+// Same rule, ending just before `date`; used to cut a series at an occurrence
+export function endRecurrenceBefore(rule: string, date: Date): string {
+  const parsed = rrulestr(rule) as RRule;
+
+  return new RRule({
+    ...parsed.origOptions,
+    count: null,
+    until: new Date(date.getTime() - 1000),
+  }).toString();
+}
+
+// Anchor of a stored rule
+export function recurrenceStart(rule: string): Date {
+  return (rrulestr(rule) as RRule).options.dtstart;
+}
@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+import { Request } from 'express';
+import { UsageMetric } from '../enums/usage-metric.enum';
+
+export const METER_USAGE_KEY = 'meter_usage';
+
+export interface MeterUsageOptions {
+  metric: UsageMetric;
+  // How much of the metric a request uses; one by default
+  amount?: (request: Request) => number;
+}
+
+// Counts a route's requests against a quota on top of the API call quota; see QuotaInterceptor
+export const MeterUsage = (metric: UsageMetric, amount?: MeterUsageOptions['amount']) =>
+  SetMetadata(METER_USAGE_KEY, { metric, amount } satisfies MeterUsageOptions);
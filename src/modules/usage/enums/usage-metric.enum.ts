@@ -0,0 +1,5 @@
+export enum UsageMetric {
+  API_CALLS = 'apiCalls',
+  TASKS_CREATED = 'tasksCreated',
+  BATCH_ITEMS = 'batchItems',
+}
@@ -0,0 +1,72 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { from, Observable, throwError } from 'rxjs';
+import { catchError, concatMap } from 'rxjs/operators';
+import { UsageService, QuotaExceededException } from '../usage.service';
+import { METER_USAGE_KEY, MeterUsageOptions } from '../decorators/meter-usage.decorator';
+import { UsageMetric } from '../enums/usage-metric.enum';
+import { AuthenticatedUser } from '../../../common/interfaces/authenticated-user.interface';
+
+/**
+ * Enforces plan quotas for authenticated requests: every request counts as
+ * an API call, and routes marked with `@MeterUsage` also count against their
+ * metric. Metered usage is refunded when the request fails or is an
+ * idempotent replay.
+ */
+@Injectable()
+export class QuotaInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly usageService: UsageService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request.user as AuthenticatedUser | undefined;
+
+    if (!user?.id) {
+      return next.handle();
+    }
+
+    const metered = this.reflector.get<MeterUsageOptions | undefined>(
+      METER_USAGE_KEY,
+      context.getHandler(),
+    );
+    const amount = metered ? (metered.amount?.(request) ?? 1) : 0;
+
+    const response = context.switchToHttp().getResponse<Response>();
+
+    try {
+      await this.usageService.consume(user.id, user.plan, UsageMetric.API_CALLS);
+      if (metered) {
+        await this.usageService.consume(user.id, user.plan, metered.metric, amount);
+      }
+    } catch (error) {
+      if (error instanceof QuotaExceededException) {
+        const retryAfter = Math.ceil((error.resetsAt.getTime() - Date.now()) / 1000);
+        response.setHeader('Retry-After', retryAfter);
+      }
+      throw error;
+    }
+
+    if (!metered) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      concatMap(async body => {
+        // A replayed idempotent response did not do the work again
+        if (response.getHeader('Idempotent-Replayed')) {
+          await this.usageService.refund(user.id, metered.metric, amount);
+        }
+        return body;
+      }),
+      catchError(error =>
+        from(this.usageService.refund(user.id, metered.metric, amount)).pipe(
+          concatMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+}
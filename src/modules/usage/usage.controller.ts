@@ -0,0 +1,20 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { UsageService } from './usage.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+@ApiTags('usage')
+@Controller('me')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  @Get('usage')
+  @ApiOperation({ summary: 'Current daily and monthly usage against the quotas of your plan' })
+  getUsage(@CurrentUser() user: AuthenticatedUser) {
+    return this.usageService.getUsage(user.id, user.plan);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { UsageService } from './usage.service';
+import { UsageController } from './usage.controller';
+import { QuotaInterceptor } from './interceptors/quota.interceptor';
+
+@Module({
+  controllers: [UsageController],
+  providers: [
+    UsageService,
+    // Quotas apply to every authenticated route
+    { provide: APP_INTERCEPTOR, useClass: QuotaInterceptor },
+  ],
+  exports: [UsageService],
+})
+export class UsageModule {}
@@ -0,0 +1,120 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuotaExceededException, UsageService } from './usage.service';
+import { UsageMetric } from './enums/usage-metric.enum';
+import { PlanTier } from '../../common/enums/plan-tier.enum';
+import { CacheService } from '../../common/services/cache.service';
+
+const quotas = {
+  [PlanTier.FREE]: {
+    daily: { apiCalls: 100, tasksCreated: 2, batchItems: 0 },
+    monthly: { apiCalls: 1000, tasksCreated: 3, batchItems: 0 },
+  },
+  [PlanTier.PRO]: {
+    daily: { apiCalls: null, tasksCreated: null, batchItems: null },
+    monthly: { apiCalls: null, tasksCreated: null, batchItems: null },
+  },
+};
+
+describe('UsageService', () => {
+  const now = new Date('2024-03-31T18:30:00Z');
+  let counters: Map<string, number>;
+  let service: UsageService;
+
+  const cacheService = { increment: jest.fn(), bulkGet: jest.fn() };
+  const configService = { get: jest.fn().mockReturnValue(quotas) };
+
+  beforeEach(() => {
+    counters = new Map();
+    cacheService.increment.mockImplementation(async (key: string, amount: number) => {
+      counters.set(key, (counters.get(key) ?? 0) + amount);
+      return counters.get(key);
+    });
+    cacheService.bulkGet.mockImplementation(async (keys: string[]) =>
+      keys.map(key => counters.get(key) ?? null),
+    );
+
+    service = new UsageService(
+      cacheService as unknown as CacheService,
+      configService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should count usage in daily and monthly counters that expire when the period ends', async () => {
+    await service.consume('user-id', PlanTier.FREE, UsageMetric.TASKS_CREATED, 1, now);
+
+    expect(cacheService.increment).toHaveBeenCalledWith(
+      'usage:user-id:tasksCreated:daily:2024-03-31',
+      1,
+      new Date('2024-04-01T00:00:00Z'),
+    );
+    expect(cacheService.increment).toHaveBeenCalledWith(
+      'usage:user-id:tasksCreated:monthly:2024-03',
+      1,
+      new Date('2024-04-01T00:00:00Z'),
+    );
+  });
+
+  it('should reject usage over the quota without counting it', async () => {
+    await service.consume('user-id', PlanTier.FREE, UsageMetric.TASKS_CREATED, 2, now);
+
+    const attempt = service.consume('user-id', PlanTier.FREE, UsageMetric.TASKS_CREATED, 1, now);
+
+    await expect(attempt).rejects.toThrow(QuotaExceededException);
+    await expect(attempt).rejects.toThrow('Daily quota of 2 tasks created exceeded');
+    expect(counters.get('usage:user-id:tasksCreated:daily:2024-03-31')).toBe(2);
+    expect(counters.get('usage:user-id:tasksCreated:monthly:2024-03')).toBe(2);
+  });
+
+  it('should forbid metrics the plan does not include', async () => {
+    await expect(
+      service.consume('user-id', PlanTier.FREE, UsageMetric.BATCH_ITEMS, 5, now),
+    ).rejects.toThrow(ForbiddenException);
+    expect(cacheService.increment).not.toHaveBeenCalled();
+  });
+
+  it('should not limit unlimited plans', async () => {
+    await expect(
+      service.consume('user-id', PlanTier.PRO, UsageMetric.TASKS_CREATED, 10000, now),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should let requests through unmetered while Redis is down', async () => {
+    cacheService.increment.mockRejectedValue(new Error('Connection is closed.'));
+
+    await expect(
+      service.consume('user-id', PlanTier.FREE, UsageMetric.API_CALLS, 1, now),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should give back the daily count when the monthly counter cannot be reached', async () => {
+    cacheService.increment
+      .mockImplementationOnce(async (key: string, amount: number) => {
+        counters.set(key, amount);
+        return amount;
+      })
+      .mockRejectedValueOnce(new Error('Connection is closed.'));
+
+    await service.consume('user-id', PlanTier.FREE, UsageMetric.TASKS_CREATED, 1, now);
+
+    expect(counters.get('usage:user-id:tasksCreated:daily:2024-03-31')).toBe(0);
+  });
+
+  it('should report usage against the limits of the plan', async () => {
+    await service.consume('user-id', PlanTier.FREE, UsageMetric.API_CALLS, 7, now);
+
+    const report = await service.getUsage('user-id', PlanTier.FREE, now);
+
+    expect(report.plan).toBe(PlanTier.FREE);
+    expect(report.usage.apiCalls.daily).toEqual({
+      used: 7,
+      limit: 100,
+      resetsAt: new Date('2024-04-01T00:00:00Z'),
+    });
+    expect(report.usage.tasksCreated.monthly.used).toBe(0);
+  });
+});
@@ -0,0 +1,167 @@
+import { ForbiddenException, HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../../common/services/cache.service';
+import { PlanTier } from '../../common/enums/plan-tier.enum';
+import { UsageMetric } from './enums/usage-metric.enum';
+import { PlanQuotas, QuotaPeriod } from '../../config/quota.config';
+
+const QUOTA_PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  [UsageMetric.API_CALLS]: 'API calls',
+  [UsageMetric.TASKS_CREATED]: 'tasks created',
+  [UsageMetric.BATCH_ITEMS]: 'batch items',
+};
+
+export interface PeriodUsage {
+  used: number;
+  limit: number | null;
+  resetsAt: Date;
+}
+
+export interface UsageReport {
+  plan: PlanTier;
+  usage: Record<UsageMetric, Record<QuotaPeriod, PeriodUsage>>;
+}
+
+// Thrown when a quota is used up for the current period; carries when it resets
+export class QuotaExceededException extends HttpException {
+  constructor(
+    message: string,
+    readonly resetsAt: Date,
+  ) {
+    super(message, HttpStatus.TOO_MANY_REQUESTS);
+  }
+}
+
+/**
+ * Meters usage per user in Redis counters that reset at the start of each
+ * UTC day and month, and enforces the quotas of the user's plan.
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Counts `amount` against the daily and monthly quotas of `metric`. Nothing
+   * is counted when a quota would be exceeded: 403 if the plan does not
+   * include the metric, 429 until the period resets otherwise. Usage goes
+   * unmetered while Redis is unreachable rather than failing the request.
+   */
+  async consume(
+    userId: string,
+    plan: PlanTier,
+    metric: UsageMetric,
+    amount = 1,
+    now = new Date(),
+  ): Promise<void> {
+    if (amount <= 0) {
+      return;
+    }
+
+    const quotas = this.quotasFor(plan);
+    if (QUOTA_PERIODS.some(period => quotas[period][metric] === 0)) {
+      throw new ForbiddenException(`Your ${plan} plan does not include ${METRIC_LABELS[metric]}`);
+    }
+
+    const counted: QuotaPeriod[] = [];
+    for (const period of QUOTA_PERIODS) {
+      const limit = quotas[period][metric];
+      const resetsAt = this.periodEnd(period, now);
+      let used: number;
+      try {
+        used = await this.cacheService.increment(
+          this.counterKey(userId, metric, period, now),
+          amount,
+          resetsAt,
+        );
+      } catch (error) {
+        // Metering must not take the API down with Redis
+        this.logger.warn(`Usage metering skipped: ${(error as Error).message}`);
+        await this.release(userId, metric, amount, counted, now);
+        return;
+      }
+      counted.push(period);
+
+      if (limit !== null && used > limit) {
+        await this.release(userId, metric, amount, counted, now);
+        throw new QuotaExceededException(
+          `${period === 'daily' ? 'Daily' : 'Monthly'} quota of ${limit} ${METRIC_LABELS[metric]} exceeded`,
+          resetsAt,
+        );
+      }
+    }
+  }
+
+  // Gives back usage counted for a request that failed
+  async refund(userId: string, metric: UsageMetric, amount: number, now = new Date()) {
+    if (amount > 0) {
+      await this.release(userId, metric, amount, QUOTA_PERIODS, now);
+    }
+  }
+
+  async getUsage(userId: string, plan: PlanTier, now = new Date()): Promise<UsageReport> {
+    const quotas = this.quotasFor(plan);
+    const metrics = Object.values(UsageMetric);
+    const keys = metrics.flatMap(metric =>
+      QUOTA_PERIODS.map(period => this.counterKey(userId, metric, period, now)),
+    );
+    const counts = await this.cacheService.bulkGet<number>(keys);
+
+    const usage = {} as UsageReport['usage'];
+    metrics.forEach((metric, metricIndex) => {
+      usage[metric] = {} as Record<QuotaPeriod, PeriodUsage>;
+      QUOTA_PERIODS.forEach((period, periodIndex) => {
+        usage[metric][period] = {
+          used: Math.max(0, Number(counts[metricIndex * QUOTA_PERIODS.length + periodIndex] ?? 0)),
+          limit: quotas[period][metric],
+          resetsAt: this.periodEnd(period, now),
+        };
+      });
+    });
+
+    return { plan, usage };
+  }
+
+  private async release(
+    userId: string,
+    metric: UsageMetric,
+    amount: number,
+    periods: QuotaPeriod[],
+    now: Date,
+  ): Promise<void> {
+    for (const period of periods) {
+      try {
+        await this.cacheService.increment(
+          this.counterKey(userId, metric, period, now),
+          -amount,
+          this.periodEnd(period, now),
+        );
+      } catch (error) {
+        this.logger.warn(`Failed to release ${metric} usage of user ${userId}`);
+      }
+    }
+  }
+
+  private quotasFor(plan: PlanTier): PlanQuotas {
+    const quotas = this.configService.get<Record<PlanTier, PlanQuotas>>('quotas')!;
+    return quotas[plan] ?? quotas[PlanTier.FREE];
+  }
+
+  // e.g. usage:<userId>:tasksCreated:daily:2024-03-31 or usage:<userId>:tasksCreated:monthly:2024-03
+  private counterKey(userId: string, metric: UsageMetric, period: QuotaPeriod, now: Date) {
+    const day = now.toISOString().substring(0, 10);
+    return `usage:${userId}:${metric}:${period}:${period === 'daily' ? day : day.substring(0, 7)}`;
+  }
+
+  private periodEnd(period: QuotaPeriod, now: Date): Date {
+    return period === 'daily'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+}
@@ -1,6 +1,7 @@
 import { IsEmail, IsEnum, IsNotEmpty, IsOptional, IsString, MinLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { UserRole } from '../../../common/enums/user-role.enum';
+import { PlanTier } from '../../../common/enums/plan-tier.enum';
 
 export class CreateUserDto {
   @ApiProperty({ example: 'john.doe@example.com' })
@@ -23,4 +24,9 @@ export class CreateUserDto {
   @IsOptional()
   @IsEnum(UserRole)
   role?: UserRole;
+
+  @ApiProperty({ enum: PlanTier, example: PlanTier.PRO, required: false })
+  @IsOptional()
+  @IsEnum(PlanTier)
+  plan?: PlanTier;
 }
@@ -1,6 +1,7 @@
 import {
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   Entity,
   Index,
   OneToMany,
@@ -10,6 +11,7 @@ import {
 import { Task } from '../../tasks/entities/task.entity';
 import { Exclude } from 'class-transformer';
 import { UserRole } from '../../../common/enums/user-role.enum';
+import { PlanTier } from '../../../common/enums/plan-tier.enum';
 
 @Entity('users')
 @Index(['email'], { unique: true })
@@ -34,15 +36,52 @@ export class User {
   })
   role: UserRole;
 
+  // Decides the user's daily and monthly quotas (see config/quota.config.ts)
+  @Column({ type: 'varchar', default: PlanTier.FREE })
+  plan: PlanTier;
+
   @OneToMany(() => Task, task => task.user)
   tasks: Task[];
 
   @Column({ default: 1 })
   tokenVersion: number;
 
+  // Null until the user follows the link mailed at registration (or after an email change)
+  @Column({ name: 'email_verified_at', type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  // TOTP secret, encrypted with TWO_FACTOR_ENCRYPTION_KEY; set from enrolment on
+  @Column({ name: 'two_factor_secret', type: 'text', nullable: true, select: false })
+  @Exclude({ toPlainOnly: true })
+  twoFactorSecret: string | null;
+
+  // Set once enrolment is confirmed with a first code; logins need a second step from then on
+  @Column({ name: 'two_factor_enabled_at', type: 'timestamp', nullable: true })
+  twoFactorEnabledAt: Date | null;
+
+  // SHA-256 digests of the unused recovery codes
+  @Column({
+    name: 'two_factor_recovery_codes',
+    type: 'text',
+    array: true,
+    nullable: true,
+    select: false,
+  })
+  @Exclude({ toPlainOnly: true })
+  twoFactorRecoveryCodes: string[] | null;
+
+  // Time step of the last accepted code, so a code cannot be used twice
+  @Column({ name: 'two_factor_last_step', type: 'integer', nullable: true, select: false })
+  @Exclude({ toPlainOnly: true })
+  twoFactorLastStep: number | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  // Set while the account is deactivated; the user's tasks are kept
+  @DeleteDateColumn({ name: 'deleted_at' })
+  deletedAt: Date | null;
 }
@@ -1,3 +1,4 @@
+import { CallHandler } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
@@ -6,10 +7,12 @@ import { RolesGuard } from '../../common/guards/roles.guard';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UserRole } from '../../common/enums/user-role.enum';
+import { IdempotencyInterceptor } from '../../common/interceptors/idempotency.interceptor';
 
 const mockUsersService = {
   create: jest.fn(),
   findAll: jest.fn(),
+  findAllByCursor: jest.fn(),
   findOne: jest.fn(),
   update: jest.fn(),
   remove: jest.fn(),
@@ -29,6 +32,8 @@ describe('UsersController', () => {
       .useValue({ canActivate: () => true })
       .overrideGuard(RolesGuard)
       .useValue({ canActivate: () => true })
+      .overrideInterceptor(IdempotencyInterceptor)
+      .useValue({ intercept: (_context: unknown, next: CallHandler) => next.handle() })
       .compile();
 
     controller = module.get<UsersController>(UsersController);
@@ -65,8 +70,17 @@ describe('UsersController', () => {
       };
       mockUsersService.findAll.mockResolvedValue(result);
 
-      expect(await controller.findAll(1, 10)).toEqual(result);
-      expect(mockUsersService.findAll).toHaveBeenCalledWith(1, 10);
+      expect(await controller.findAll({ page: 1, limit: 10 })).toEqual(result);
+      expect(mockUsersService.findAll).toHaveBeenCalledWith({ page: 1, limit: 10 });
+    });
+
+    it('should switch to cursor pagination when a cursor is given', async () => {
+      const result = { items: [], nextCursor: null, prevCursor: null };
+      mockUsersService.findAllByCursor.mockResolvedValue(result);
+
+      expect(await controller.findAll({ limit: 10, cursor: '' })).toEqual(result);
+      expect(mockUsersService.findAllByCursor).toHaveBeenCalledWith({ limit: 10, cursor: '' });
+      expect(mockUsersService.findAll).not.toHaveBeenCalled();
     });
   });
 
@@ -15,20 +15,27 @@ import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiSecurity, ApiTags } from '@nestjs/swagger';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { UserRole } from '../../common/enums/user-role.enum';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { IdempotencyInterceptor } from '../../common/interceptors/idempotency.interceptor';
 
 @ApiTags('users')
 @Controller('users')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @UseInterceptors(ClassSerializerInterceptor)
+@ApiSecurity('api-key')
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   @Roles(UserRole.ADMIN)
   @Post()
+  @RequireScopes(ApiKeyScope.USERS_WRITE)
+  @UseInterceptors(IdempotencyInterceptor)
   create(@Body() createUserDto: CreateUserDto) {
     return this.usersService.create(createUserDto);
   }
@@ -36,12 +43,17 @@ export class UsersController {
   @Roles(UserRole.ADMIN)
   @ApiBearerAuth()
   @Get()
-  findAll(@Query('page') page = 1, @Query('limit') limit = 10) {
-    return this.usersService.findAll(page, limit);
+  @RequireScopes(ApiKeyScope.USERS_READ)
+  findAll(@Query() query: PaginationQueryDto) {
+    if (query.cursor !== undefined) {
+      return this.usersService.findAllByCursor(query);
+    }
+    return this.usersService.findAll(query);
   }
 
   @ApiBearerAuth()
   @Get(':id')
+  @RequireScopes(ApiKeyScope.USERS_READ)
   findOne(@Param('id') id: string) {
     return this.usersService.findOne(id);
   }
@@ -49,13 +61,23 @@ export class UsersController {
   @Roles(UserRole.ADMIN)
   @ApiBearerAuth()
   @Patch(':id')
+  @RequireScopes(ApiKeyScope.USERS_WRITE)
   update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
     return this.usersService.update(id, updateUserDto);
   }
 
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @Post(':id/reactivate')
+  @RequireScopes(ApiKeyScope.USERS_WRITE)
+  reactivate(@Param('id') id: string) {
+    return this.usersService.reactivate(id);
+  }
+
   @Roles(UserRole.ADMIN)
   @ApiBearerAuth()
   @Delete(':id')
+  @RequireScopes(ApiKeyScope.USERS_WRITE)
   remove(@Param('id') id: string) {
     return this.usersService.remove(id);
   }
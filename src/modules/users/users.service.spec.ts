@@ -2,18 +2,28 @@ import { UsersService } from './users.service';
 import { ConflictException, BadRequestException, NotFoundException } from '@nestjs/common';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { User } from './entities/user.entity';
+import { RefreshToken } from '../auth/entities/refresh-token.entity';
 import { Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import { Test } from '@nestjs/testing';
+import { CacheService } from '../../common/services/cache.service';
 
 describe('UsersService', () => {
   let service: UsersService;
   let repo: jest.Mocked<Repository<User>>;
+  let cacheService: { get: jest.Mock; set: jest.Mock; delete: jest.Mock };
 
   beforeEach(async () => {
+    cacheService = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(true),
+    };
+
     const module = await Test.createTestingModule({
       providers: [
         UsersService,
+        { provide: CacheService, useValue: cacheService },
         {
           provide: getRepositoryToken(User),
           useValue: {
@@ -29,10 +39,15 @@ describe('UsersService', () => {
               getManyAndCount: jest.fn(),
             })),
             remove: jest.fn(),
+            restore: jest.fn(),
             merge: jest.fn(),
+            increment: jest.fn(),
             manager: {
               transaction: jest.fn(),
               save: jest.fn(),
+              softDelete: jest.fn(),
+              update: jest.fn(),
+              increment: jest.fn(),
             },
           },
         },
@@ -112,6 +127,42 @@ describe('UsersService', () => {
 
       const user = await service.update('1', { name: 'Updated' });
       expect(user.name).toBe('Updated');
+      expect(repo.manager.increment).not.toHaveBeenCalled();
+    });
+
+    it('should end the sessions of a user whose password changes', async () => {
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: '1', email: 'a@b.com' } as User);
+      (repo.manager.transaction as jest.Mock).mockImplementation(
+        async cb => await cb(repo.manager),
+      );
+      repo.merge.mockReturnValue({ id: '1' } as User);
+      (repo.manager.save as jest.Mock).mockResolvedValue({ id: '1' });
+
+      await service.update('1', { password: 'new-password' });
+
+      expect(repo.manager.increment).toHaveBeenCalledWith(User, { id: '1' }, 'tokenVersion', 1);
+      expect(repo.manager.update).toHaveBeenCalledWith(
+        RefreshToken,
+        { userId: '1', isActive: true },
+        { isActive: false },
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith('token-version:1');
+    });
+
+    it('should require a changed email address to be verified again', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValue({ id: '1', email: 'a@b.com', emailVerifiedAt: new Date() } as User);
+      jest.spyOn(service, 'findByEmail').mockResolvedValue(null);
+      (repo.manager.transaction as jest.Mock).mockImplementation(
+        async cb => await cb(repo.manager),
+      );
+      repo.merge.mockImplementation((user, changes) => ({ ...user, ...changes }) as User);
+      (repo.manager.save as jest.Mock).mockImplementation((_entity, user) => user);
+
+      const user = await service.update('1', { email: 'new@example.com' });
+
+      expect(user.emailVerifiedAt).toBeNull();
     });
 
     it('should throw conflict on duplicate email', async () => {
@@ -125,10 +176,60 @@ describe('UsersService', () => {
   });
 
   describe('remove', () => {
-    it('should remove user successfully', async () => {
+    it('should deactivate the user and revoke their refresh tokens', async () => {
       jest.spyOn(service, 'findOne').mockResolvedValue({ id: '1' } as User);
-      repo.remove.mockResolvedValue(undefined as any);
+      (repo.manager.transaction as jest.Mock).mockImplementation(
+        async cb => await cb(repo.manager),
+      );
+
       await expect(service.remove('1')).resolves.not.toThrow();
+      expect(repo.manager.softDelete).toHaveBeenCalledWith(User, { id: '1' });
+      expect(repo.manager.update).toHaveBeenCalledWith(
+        RefreshToken,
+        { userId: '1', isActive: true },
+        { isActive: false },
+      );
+      expect(repo.manager.increment).toHaveBeenCalledWith(User, { id: '1' }, 'tokenVersion', 1);
+      expect(repo.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTokenVersion', () => {
+    it('should serve the version from the cache', async () => {
+      cacheService.get.mockResolvedValue(3);
+
+      await expect(service.getTokenVersion('1')).resolves.toBe(3);
+      expect(repo.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should load and cache the version on a miss', async () => {
+      repo.findOne.mockResolvedValue({ id: '1', tokenVersion: 2 } as User);
+
+      await expect(service.getTokenVersion('1')).resolves.toBe(2);
+      expect(cacheService.set).toHaveBeenCalledWith('token-version:1', 2, expect.any(Number));
+    });
+
+    it('should return null for deactivated users', async () => {
+      repo.findOne.mockResolvedValue(null);
+
+      await expect(service.getTokenVersion('1')).resolves.toBeNull();
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should restore a deactivated user', async () => {
+      repo.findOne.mockResolvedValue({ id: '1', deletedAt: new Date() } as User);
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: '1' } as User);
+
+      await expect(service.reactivate('1')).resolves.toEqual({ id: '1' });
+      expect(repo.restore).toHaveBeenCalledWith({ id: '1' });
+    });
+
+    it('should reject a user that is already active', async () => {
+      repo.findOne.mockResolvedValue({ id: '1', deletedAt: null } as User);
+
+      await expect(service.reactivate('1')).rejects.toThrow(ConflictException);
+      expect(repo.restore).not.toHaveBeenCalled();
     });
   });
 });
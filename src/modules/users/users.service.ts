@@ -6,20 +6,36 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { QueryFailedError, Repository } from 'typeorm';
+import { EntityManager, IsNull, QueryFailedError, Repository, SelectQueryBuilder } from 'typeorm';
 import { User } from './entities/user.entity';
+import { RefreshToken } from '../auth/entities/refresh-token.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import * as bcrypt from 'bcrypt';
 import { UserRole } from '../../common/enums/user-role.enum';
+import { CursorPage, PaginationOptions } from '../../types/pagination.interface';
+import { paginateByCursor } from '../../common/utils/keyset-pagination.util';
+import { applySort, parseSort, SortableFields } from '../../common/utils/sort.util';
+import { CacheService } from '../../common/services/cache.service';
+
+const USER_SORTABLE_FIELDS: SortableFields = {
+  createdAt: { expression: 'user.createdAt' },
+  name: { expression: 'user.name' },
+  email: { expression: 'user.email' },
+  role: { expression: 'user.role' },
+};
+
+const DEFAULT_USER_SORT = '-createdAt';
 
 @Injectable()
 export class UsersService {
   private readonly logger = new Logger(UsersService.name);
   private readonly SALT_ROUNDS = 10;
+  private readonly TOKEN_VERSION_TTL = 300; // 5 minutes
   constructor(
     @InjectRepository(User)
     private usersRepository: Repository<User>,
+    private cacheService: CacheService,
   ) {}
 
   async create(createUserDto: CreateUserDto): Promise<User> {
@@ -52,18 +68,16 @@ export class UsersService {
     }
   }
 
-  async findAll(page = 1, limit = 10): Promise<{ users: User[]; total: number; pages: number }> {
+  async findAll(
+    options: PaginationOptions = {},
+  ): Promise<{ users: User[]; total: number; pages: number }> {
+    const { page = 1, limit = 10 } = options;
     this.logger.debug(`Fetching users: page=${page}, limit=${limit}`);
 
+    const sortKeys = parseSort(options, USER_SORTABLE_FIELDS, DEFAULT_USER_SORT, 'user.id');
+
     try {
-      // Build query with optional filters
-      const queryBuilder = this.usersRepository
-        .createQueryBuilder('user')
-        .select(['user.id', 'user.email', 'user.name', 'user.role', 'user.createdAt']) // Exclude sensitive fields like password
-        .where('user.deletedAt IS NULL');
-
-      queryBuilder
-        .orderBy('user.createdAt', 'DESC')
+      const queryBuilder = applySort(this.createListQuery(), sortKeys)
         .skip((page - 1) * limit)
         .take(limit);
 
@@ -82,13 +96,47 @@ export class UsersService {
     }
   }
 
+  async findAllByCursor(options: PaginationOptions): Promise<CursorPage<User>> {
+    const { cursor = '', limit = 10 } = options;
+    this.logger.debug(`Fetching users by cursor: limit=${limit}`);
+
+    const sortKeys = parseSort(options, USER_SORTABLE_FIELDS, DEFAULT_USER_SORT, 'user.id');
+
+    try {
+      return await paginateByCursor(this.createListQuery(), sortKeys, cursor, limit);
+    } catch (error: any) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error(`Failed to fetch users: ${error.message}`, error.stack);
+      throw new BadRequestException('Failed to fetch users');
+    }
+  }
+
+  private createListQuery(): SelectQueryBuilder<User> {
+    return this.usersRepository
+      .createQueryBuilder('user')
+      .select(['user.id', 'user.email', 'user.name', 'user.role', 'user.plan', 'user.createdAt']) // Exclude sensitive fields like password
+      .where('user.deletedAt IS NULL');
+  }
+
   async findOne(id: string): Promise<User> {
     this.logger.debug(`Fetching user with ID: ${id}`);
 
     try {
       const user = await this.usersRepository.findOne({
         where: { id },
-        select: ['id', 'email', 'name', 'role', 'createdAt'], // Exclude sensitive fields
+        // Exclude sensitive fields
+        select: [
+          'id',
+          'email',
+          'name',
+          'role',
+          'plan',
+          'emailVerifiedAt',
+          'twoFactorEnabledAt',
+          'createdAt',
+        ],
       });
 
       if (!user) {
@@ -104,13 +152,26 @@ export class UsersService {
     }
   }
 
+  // Deactivated users are included: their email stays taken and login can tell them apart
   async findByEmail(email: string): Promise<User | null> {
     this.logger.debug(`Fetching user by email: ${email}`);
 
     try {
       return await this.usersRepository.findOne({
         where: { email },
-        select: ['id', 'email', 'name', 'role', 'password', 'createdAt'], // Include password for auth
+        // Include password for auth
+        select: [
+          'id',
+          'email',
+          'name',
+          'role',
+          'password',
+          'tokenVersion',
+          'twoFactorEnabledAt',
+          'createdAt',
+          'deletedAt',
+        ],
+        withDeleted: true,
       });
     } catch (error: any) {
       this.logger.error(`Failed to fetch user by email ${email}: ${error.message}`, error.stack);
@@ -133,21 +194,39 @@ export class UsersService {
       }
 
       // Check for email uniqueness if updated
-      if (updateUserDto.email && updateUserDto.email !== user.email) {
-        const existingUser = await this.findByEmail(updateUserDto.email);
+      const emailChanged = !!updateUserDto.email && updateUserDto.email !== user.email;
+      if (emailChanged) {
+        const existingUser = await this.findByEmail(updateUserDto.email!);
         if (existingUser) {
           throw new ConflictException(`Email ${updateUserDto.email} is already in use`);
         }
       }
 
+      // A new password or role must not leave tokens issued under the old one working
+      const endsSessions =
+        !!updateUserDto.password ||
+        (updateUserDto.role !== undefined && updateUserDto.role !== user.role);
+
       // Use transaction for data consistency
       const updatedUser = await this.usersRepository.manager.transaction(
         async transactionalEntityManager => {
           const mergedUser = this.usersRepository.merge(user, updateUserDto);
-          return await transactionalEntityManager.save(User, mergedUser);
+          // A new address has to be verified again
+          if (emailChanged) {
+            mergedUser.emailVerifiedAt = null;
+          }
+          const savedUser = await transactionalEntityManager.save(User, mergedUser);
+          if (endsSessions) {
+            await this.endSessions(transactionalEntityManager, id);
+          }
+          return savedUser;
         },
       );
 
+      if (endsSessions) {
+        await this.forgetTokenVersion(id);
+      }
+
       this.logger.log(`User updated successfully`);
     
       return updatedUser;
@@ -162,15 +241,99 @@ export class UsersService {
   async remove(id: string): Promise<void> {
   this.logger.debug(`Soft deleting user with ID: ${id}`);
 
-    const user = await this.findOne(id);
+    await this.findOne(id);
 
     try {
-      // Implement soft delete
-      await this.usersRepository.remove(user);
+      // Deactivate the account and end its sessions; the user's tasks are kept
+      await this.usersRepository.manager.transaction(async transactionalEntityManager => {
+        await transactionalEntityManager.softDelete(User, { id });
+        await this.endSessions(transactionalEntityManager, id);
+      });
+      await this.forgetTokenVersion(id);
       this.logger.log(`User ${id} soft deleted successfully`);
     } catch (error: any) {
       this.logger.error(`Failed to soft delete user ${id}: ${error.message}`, error.stack);
       throw new BadRequestException('Failed to delete user');
     }
   }
+
+  async reactivate(id: string): Promise<User> {
+    this.logger.debug(`Reactivating user with ID: ${id}`);
+
+    const user = await this.usersRepository.findOne({
+      where: { id },
+      select: ['id', 'deletedAt'],
+      withDeleted: true,
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User not found`);
+    }
+    if (!user.deletedAt) {
+      throw new ConflictException('User is already active');
+    }
+
+    await this.usersRepository.restore({ id });
+    this.logger.log(`User ${id} reactivated`);
+
+    return this.findOne(id);
+  }
+
+  // Returns false when the address was already verified
+  async markEmailVerified(id: string): Promise<boolean> {
+    const result = await this.usersRepository.update(
+      { id, emailVerifiedAt: IsNull() },
+      { emailVerifiedAt: new Date() },
+    );
+
+    if (result.affected) {
+      this.logger.log(`Email address of user ${id} verified`);
+    }
+    return !!result.affected;
+  }
+
+  // Cached, since every authenticated request checks its token against it; null once deactivated
+  async getTokenVersion(id: string): Promise<number | null> {
+    const cacheKey = this.tokenVersionKey(id);
+    const cached = await this.cacheService.get<number>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const user = await this.usersRepository.findOne({
+      where: { id },
+      select: ['id', 'tokenVersion'],
+    });
+    if (!user) {
+      return null;
+    }
+
+    await this.cacheService
+      .set(cacheKey, user.tokenVersion, this.TOKEN_VERSION_TTL)
+      .catch(() => undefined);
+
+    return user.tokenVersion;
+  }
+
+  // Invalidates every access token issued to the user so far
+  async bumpTokenVersion(id: string): Promise<void> {
+    await this.usersRepository.increment({ id }, 'tokenVersion', 1);
+    await this.forgetTokenVersion(id);
+    this.logger.log(`Token version bumped for user ${id}`);
+  }
+
+  // Kills both the access tokens (through the version) and the refresh tokens of a user
+  private async endSessions(manager: EntityManager, id: string): Promise<void> {
+    await manager.increment(User, { id }, 'tokenVersion', 1);
+    await manager.update(RefreshToken, { userId: id, isActive: true }, { isActive: false });
+  }
+
+  // Called once the new version is committed, so a concurrent lookup cannot cache the old one
+  private async forgetTokenVersion(id: string): Promise<void> {
+    await this.cacheService.delete(this.tokenVersionKey(id));
+  }
+
+  private tokenVersionKey(id: string): string {
+    return `token-version:${id}`;
+  }
 }
@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TaskRecurrenceService } from '../../modules/tasks/task-recurrence.service';
+
+@Injectable()
+export class RecurringTasksService {
+  private readonly logger = new Logger(RecurringTasksService.name);
+  private readonly BATCH_SIZE = 100; // Series rolled forward per query
+
+  constructor(private readonly taskRecurrenceService: TaskRecurrenceService) {}
+
+  // Catches series whose latest occurrence went past due without being completed
+  @Cron(CronExpression.EVERY_HOUR)
+  async generateNextOccurrences() {
+    this.logger.debug('Starting recurring tasks check...');
+
+    try {
+      const now = new Date();
+      const seen = new Set<string>();
+      let generated = 0;
+
+      while (true) {
+        const seriesIds = (
+          await this.taskRecurrenceService.findSeriesDueForRollover(
+            now,
+            this.BATCH_SIZE + seen.size,
+          )
+        ).filter(seriesId => !seen.has(seriesId));
+
+        if (seriesIds.length === 0) {
+          break;
+        }
+
+        for (const seriesId of seriesIds) {
+          seen.add(seriesId);
+          try {
+            if (await this.taskRecurrenceService.ensureNextOccurrence(seriesId, now)) {
+              generated++;
+            }
+          } catch (error) {
+            // Continue with the next series even if one fails
+            this.logger.error(
+              `Failed to roll series ${seriesId} forward: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            );
+          }
+        }
+      }
+
+      this.logger.log(`Completed recurring tasks check: ${generated} occurrence(s) generated`);
+    } catch (error) {
+      this.logger.error(
+        `Recurring tasks check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw error; // Re-throw to allow monitoring tools to catch the error
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { BullModule } from '@nestjs/bullmq';
 import { OverdueTasksService } from './overdue-tasks.service';
+import { RecurringTasksService } from './recurring-tasks.service';
+import { TrashRetentionService } from './trash-retention.service';
 import { TasksModule } from '../../modules/tasks/tasks.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
@@ -15,7 +17,7 @@ import { Task } from '../../modules/tasks/entities/task.entity';
     TypeOrmModule.forFeature([Task]),
     TasksModule,
   ],
-  providers: [OverdueTasksService],
-  exports: [OverdueTasksService],
+  providers: [OverdueTasksService, RecurringTasksService, TrashRetentionService],
+  exports: [OverdueTasksService, RecurringTasksService, TrashRetentionService],
 })
 export class ScheduledTasksModule {}
@@ -0,0 +1,44 @@
+import { ConfigService } from '@nestjs/config';
+import { TrashRetentionService } from './trash-retention.service';
+import { TasksService } from '../../modules/tasks/tasks.service';
+import { AuditSource } from '../../modules/tasks/enums/audit-source.enum';
+
+describe('TrashRetentionService', () => {
+  const now = new Date('2024-03-31T03:00:00Z');
+  const tasksService = { purgeTrash: jest.fn() };
+  const configService = { get: jest.fn() };
+  let service: TrashRetentionService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    tasksService.purgeTrash.mockResolvedValue(2);
+    service = new TrashRetentionService(
+      tasksService as unknown as TasksService,
+      configService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should purge tasks trashed longer ago than the retention period', async () => {
+    configService.get.mockReturnValue(7);
+
+    await service.purgeExpiredTasks();
+
+    expect(configService.get).toHaveBeenCalledWith('app.taskTrashRetentionDays', 30);
+    expect(tasksService.purgeTrash).toHaveBeenCalledWith(new Date('2024-03-24T03:00:00Z'), {
+      actorId: null,
+      source: AuditSource.TRASH_RETENTION,
+    });
+  });
+
+  it('should rethrow purge failures', async () => {
+    configService.get.mockReturnValue(30);
+    tasksService.purgeTrash.mockRejectedValue(new Error('connection lost'));
+
+    await expect(service.purgeExpiredTasks()).rejects.toThrow('connection lost');
+  });
+});
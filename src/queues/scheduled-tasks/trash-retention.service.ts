@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TasksService } from '../../modules/tasks/tasks.service';
+import { AuditSource } from '../../modules/tasks/enums/audit-source.enum';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TrashRetentionService {
+  private readonly logger = new Logger(TrashRetentionService.name);
+
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Permanently deletes tasks that have been in the trash longer than the retention period
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredTasks() {
+    const retentionDays = this.configService.get<number>('app.taskTrashRetentionDays', 30);
+    const deletedBefore = new Date(Date.now() - retentionDays * DAY_MS);
+
+    this.logger.debug(`Purging tasks trashed before ${deletedBefore.toISOString()}...`);
+
+    try {
+      const purged = await this.tasksService.purgeTrash(deletedBefore, {
+        actorId: null,
+        source: AuditSource.TRASH_RETENTION,
+      });
+
+      this.logger.log(`Completed trash purge: ${purged} task(s) permanently deleted`);
+    } catch (error) {
+      this.logger.error(
+        `Trash purge failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw error; // Re-throw to allow monitoring tools to catch the error
+    }
+  }
+}
@@ -2,8 +2,10 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Job } from 'bullmq';
 import { TasksService } from '../../modules/tasks/tasks.service';
+import { TaskDependenciesService } from '../../modules/tasks/task-dependencies.service';
 import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
 import { JobResult } from '../../common/enums/job-result.enum';
+import { AuditSource } from '../../modules/tasks/enums/audit-source.enum';
 
 @Injectable()
 @Processor('task-processing', {
@@ -14,7 +16,10 @@ export class TaskProcessorService extends WorkerHost {
   private readonly MAX_RETRIES = 3; // Maximum retry attempts
   private readonly BATCH_SIZE = 50; // Batch size for overdue tasks processing
 
-  constructor(private readonly tasksService: TasksService) {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly taskDependenciesService: TaskDependenciesService,
+  ) {
     super();
   }
 
@@ -50,6 +55,10 @@ export class TaskProcessorService extends WorkerHost {
           return await this.handleStatusUpdate(job);
         case 'process-overdue-task': // Updated to match OverdueTasksService job name
           return await this.handleOverdueTask(job);
+        case 'notify-unblocked-tasks':
+          return await this.handleUnblockedTasks(job);
+        case 'notify-comment-mentions':
+          return await this.handleCommentMentions(job);
         default:
           this.logger.warn(`Unknown job type: ${job.name}`);
           return {
@@ -90,7 +99,10 @@ export class TaskProcessorService extends WorkerHost {
 
     try {
       // Update task status with transaction handling in TasksService
-      const task = await this.tasksService.updateStatus(taskId, status);
+      const task = await this.tasksService.updateStatus(taskId, status, {
+        actorId: null,
+        source: AuditSource.TASK_PROCESSOR,
+      });
 
       return {
         success: true,
@@ -122,7 +134,11 @@ export class TaskProcessorService extends WorkerHost {
     try {
       // Example: Update task status to OVERDUE and log notification
       // In a real implementation, this might involve sending emails or notifications
-      const task = await this.tasksService.updateStatus(taskId, TaskStatus.OVERDUE);
+      // Enqueued by the OverdueTasksService cron, which is what the change is attributed to
+      const task = await this.tasksService.updateStatus(taskId, TaskStatus.OVERDUE, {
+        actorId: null,
+        source: AuditSource.OVERDUE_CRON,
+      });
 
       this.logger.log(
         `Processed overdue task ${taskId}: Title="${title}", DueDate=${dueDate}, NewStatus=${task.status}`,
@@ -148,4 +164,66 @@ export class TaskProcessorService extends WorkerHost {
       };
     }
   }
+
+  private async handleUnblockedTasks(job: Job): Promise<JobResult> {
+    const { blockerIds } = job.data;
+
+    // Validate input
+    if (!Array.isArray(blockerIds) || blockerIds.length === 0) {
+      return {
+        success: false,
+        error: 'Missing required data: blockerIds are required',
+      };
+    }
+
+    // Resolved when the job runs, so tasks blocked again in the meantime are skipped
+    const tasks = await this.taskDependenciesService.findNewlyUnblockedTasks(blockerIds);
+
+    const tasksByOwner = new Map<string, string[]>();
+    tasks.forEach(task => {
+      tasksByOwner.set(task.userId, [...(tasksByOwner.get(task.userId) ?? []), task.id]);
+    });
+
+    // Simulate notification (replace with actual notification logic)
+    // e.g., await this.notificationService.sendUnblockedNotification(userId, taskIds);
+    tasksByOwner.forEach((taskIds, userId) => {
+      this.logger.log(`Notifying user ${userId} that tasks ${taskIds.join(', ')} are unblocked`);
+    });
+
+    return {
+      success: true,
+      data: {
+        unblockedTaskIds: tasks.map(task => task.id),
+        notifiedUsers: tasksByOwner.size,
+      },
+    };
+  }
+
+  private async handleCommentMentions(job: Job): Promise<JobResult> {
+    const { commentId, taskId, authorId, userIds } = job.data;
+
+    // Validate input
+    if (!commentId || !taskId || !Array.isArray(userIds) || userIds.length === 0) {
+      return {
+        success: false,
+        error: 'Missing required data: commentId, taskId and userIds are required',
+      };
+    }
+
+    // Simulate notification (replace with actual notification logic)
+    // e.g., await this.notificationService.sendMentionNotification(userId, commentId);
+    userIds.forEach((userId: string) => {
+      this.logger.log(
+        `Notifying user ${userId} that ${authorId} mentioned them in comment ${commentId} on task ${taskId}`,
+      );
+    });
+
+    return {
+      success: true,
+      data: {
+        commentId,
+        notifiedUsers: userIds.length,
+      },
+    };
+  }
 }
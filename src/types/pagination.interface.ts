@@ -3,6 +3,8 @@ export interface PaginationOptions {
   limit?: number;
   sortBy?: string;
   sortOrder?: 'ASC' | 'DESC';
+  sort?: string;
+  cursor?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -13,4 +15,10 @@ export interface PaginatedResponse<T> {
     limit: number;
     totalPages: number;
   };
-} 
\ No newline at end of file
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}